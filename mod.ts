@@ -3,6 +3,12 @@ export * from "@features/contact/index.ts";
 export * from "@features/wallet/index.ts";
 export * from "@features/payout/index.ts";
 export * from "@features/admin/index.ts";
+export * from "@features/proxy/index.ts";
 
 export * from "@errors/index.ts";
 export * from "@models/index.ts";
+export * from "@shared/transport.ts";
+export * from "@shared/config.ts";
+export * from "@shared/retry.ts";
+export * from "@shared/interceptors.ts";
+export * from "@shared/request_options.ts";
@@ -8,6 +8,8 @@ await build({
   outDir: "./npm",
   importMap: "deno.json",
   typeCheck: false,
+  // Tests run with `deno task test`
+  test: false,
   shims: {
     deno: true,
   },
@@ -23,6 +23,12 @@ export class APIError extends Error {
    */
   public readonly details?: Record<string, unknown>;
 
+  /**
+   * The `x-request-id` of the failed request, to quote in support tickets.
+   * @type {string | undefined}
+   */
+  public readonly requestId?: string;
+
   /**
    * Creates a new `APIError` instance.
    * @param {Object} args - The arguments to initialize the error.
@@ -30,19 +36,22 @@ export class APIError extends Error {
    * @param {number} args.statusCode - The HTTP status code associated with the error.
    * @param {string} [args.error] - An optional error identifier or code.
    * @param {Record<string, unknown>} [args.details] - Additional details about the error.
+   * @param {string} [args.requestId] - The `x-request-id` of the failed request.
    */
   constructor(args: {
     message: string;
     statusCode: number;
     error?: string;
     details?: Record<string, unknown>;
+    requestId?: string;
   }) {
     super(args.message);
     this.name = "ApiError";
 
     this.statusCode = args.statusCode;
-    if (this.error) this.error = args.error;
+    if (args.error) this.error = args.error;
     if (args.details) this.details = args.details;
+    if (args.requestId) this.requestId = args.requestId;
   }
 
   /**
@@ -80,12 +89,14 @@ export class APIError extends Error {
     statusCode: z.ZodNumber;
     error: z.ZodOptional<z.ZodString>;
     details: z.ZodOptional<z.AnyZodObject>;
+    requestId: z.ZodOptional<z.ZodString>;
   }> {
     return z.object({
       message: z.string(),
       statusCode: z.number().int(),
       error: z.string().optional(),
       details: z.object({}).optional(),
+      requestId: z.string().optional(),
     });
   }
 }
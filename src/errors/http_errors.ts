@@ -0,0 +1,259 @@
+import { APIError } from "@errors/api_error.ts";
+import { REQUEST_ID_HEADER } from "@shared/interceptors.ts";
+import { parseRetryAfter } from "@shared/retry.ts";
+
+/**
+ * Arguments shared by the constructors of the HTTP error classes.
+ */
+export interface HTTPErrorArgs {
+  /** An optional custom error message */
+  message?: string;
+  /** An optional error identifier or code */
+  error?: string;
+  /** Additional details about the error */
+  details?: Record<string, unknown>;
+  /** The `x-request-id` of the failed request */
+  requestId?: string;
+}
+
+/**
+ * Error thrown when the request is not authenticated (HTTP 401),
+ * e.g. because the session token is missing, invalid or expired.
+ */
+export class UnauthorizedError extends APIError {
+  /**
+   * Creates a new `UnauthorizedError` instance.
+   * @param {HTTPErrorArgs} [args] - The constructor arguments.
+   */
+  constructor(args?: HTTPErrorArgs) {
+    super({
+      ...args,
+      message: args?.message ??
+        "Your session is no longer valid. Please log in again",
+      statusCode: 401,
+    });
+    this.name = "UnauthorizedError";
+  }
+}
+
+/**
+ * Error thrown when the server refuses an authenticated request (HTTP 403).
+ */
+export class ForbiddenError extends APIError {
+  /**
+   * Creates a new `ForbiddenError` instance.
+   * @param {HTTPErrorArgs} [args] - The constructor arguments.
+   */
+  constructor(args?: HTTPErrorArgs) {
+    super({
+      ...args,
+      message: args?.message ??
+        "You are not allowed to perform this action",
+      statusCode: 403,
+    });
+    this.name = "ForbiddenError";
+  }
+}
+
+/**
+ * Error thrown by repositories when the user must change their password before doing
+ * anything else, i.e. while `AfloatAuth.sessionState` is "passwordChangeRequired".
+ * Only `AfloatAuth.resetPassword` and `AfloatAuth.logOut` remain available.
+ */
+export class PasswordChangeRequiredError extends ForbiddenError {
+  /**
+   * Creates a new `PasswordChangeRequiredError` instance.
+   * @param {HTTPErrorArgs} [args] - The constructor arguments.
+   */
+  constructor(args?: HTTPErrorArgs) {
+    super({
+      ...args,
+      message: args?.message ??
+        "You must change your password before continuing",
+      error: args?.error ?? "PASSWORD CHANGE REQUIRED",
+    });
+    this.name = "PasswordChangeRequiredError";
+  }
+}
+
+/**
+ * Error thrown when the requested resource does not exist (HTTP 404).
+ */
+export class NotFoundError extends APIError {
+  /**
+   * Creates a new `NotFoundError` instance.
+   * @param {HTTPErrorArgs} [args] - The constructor arguments.
+   */
+  constructor(args?: HTTPErrorArgs) {
+    super({
+      ...args,
+      message: args?.message ??
+        "The requested resource was not found",
+      statusCode: 404,
+    });
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * Error thrown when the request conflicts with the current state of a resource (HTTP 409),
+ * e.g. approving a payout that was already approved.
+ */
+export class ConflictError extends APIError {
+  /**
+   * Creates a new `ConflictError` instance.
+   * @param {HTTPErrorArgs} [args] - The constructor arguments.
+   */
+  constructor(args?: HTTPErrorArgs) {
+    super({
+      ...args,
+      message: args?.message ??
+        "The request conflicts with the current state of the resource",
+      statusCode: 409,
+    });
+    this.name = "ConflictError";
+  }
+}
+
+/**
+ * Error thrown when the server rejects the request's input (HTTP 400 or 422).
+ * Field-level messages sent in `details` are exposed as `fieldErrors`.
+ */
+export class ValidationError extends APIError {
+  /**
+   * Validation messages keyed by field name, taken from the response's `details`.
+   * @type {Record<string, string>}
+   */
+  public readonly fieldErrors: Record<string, string>;
+
+  /**
+   * Creates a new `ValidationError` instance.
+   * @param {HTTPErrorArgs & { statusCode?: 400 | 422 }} [args] - The constructor arguments.
+   */
+  constructor(args?: HTTPErrorArgs & { statusCode?: 400 | 422 }) {
+    super({
+      ...args,
+      message: args?.message ??
+        "The request contains invalid data",
+      statusCode: args?.statusCode ?? 422,
+    });
+    this.name = "ValidationError";
+    this.fieldErrors = Object.fromEntries(
+      Object.entries(args?.details ?? {})
+        .filter(([, value]) => typeof value === "string"),
+    ) as Record<string, string>;
+  }
+}
+
+/**
+ * Error thrown when too many requests were sent in a given time (HTTP 429).
+ */
+export class RateLimitError extends APIError {
+  /**
+   * Time to wait before retrying, in milliseconds, when the server sent a `Retry-After` header.
+   * @type {number | undefined}
+   */
+  public readonly retryAfterMs?: number;
+
+  /**
+   * Creates a new `RateLimitError` instance.
+   * @param {HTTPErrorArgs & { retryAfterMs?: number }} [args] - The constructor arguments.
+   */
+  constructor(args?: HTTPErrorArgs & { retryAfterMs?: number }) {
+    const { retryAfterMs, ...rest } = args ?? {};
+    super({
+      ...rest,
+      message: rest.message ??
+        "Too many requests. Please try again later",
+      statusCode: 429,
+    });
+    this.name = "RateLimitError";
+    if (retryAfterMs !== undefined) this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Error thrown when no response was received from the server,
+ * e.g. because the device is offline or the connection was reset.
+ */
+export class NetworkError extends APIError {
+  /**
+   * Creates a new `NetworkError` instance.
+   * @param {HTTPErrorArgs & { cause?: unknown }} [args] - The constructor arguments.
+   * @param {unknown} [args.cause] - The error thrown by the transport.
+   */
+  constructor(args?: HTTPErrorArgs & { cause?: unknown }) {
+    const { cause, ...rest } = args ?? {};
+    super({
+      ...rest,
+      message: rest.message ??
+        "Could not reach the server. Please check your connection",
+      statusCode: 0,
+      error: rest.error ?? "NETWORK ERROR",
+    });
+    this.name = "NetworkError";
+    if (cause !== undefined) this.cause = cause;
+  }
+}
+
+/**
+ * Creates the error matching the status code of a failed API response.
+ *
+ * The response body's `message`, `error` and `details` are kept when present,
+ * as well as the `x-request-id` and `Retry-After` response headers.
+ *
+ * @param {Object} response - The failed API response
+ * @param {number} response.status - The HTTP status code
+ * @param {unknown} response.body - The decoded response body
+ * @param {Headers} [response.headers] - The response headers
+ * @param {Partial<Record<number, string>>} [messages] - Optional messages by status code,
+ * replacing the one sent by the server
+ * @returns {APIError} An instance of the matching `APIError` subclass,
+ * or a plain `APIError` for status codes without one
+ *
+ * @example
+ * const error = errorFromResponse(result, { 404: "Payout not found" });
+ * error instanceof NotFoundError; // true when result.status is 404
+ */
+export function errorFromResponse(
+  response: { status: number; body: unknown; headers?: Headers },
+  messages?: Partial<Record<number, string>>,
+): APIError {
+  const body = (response.body ?? {}) as Record<string, unknown>;
+  const args: HTTPErrorArgs = {
+    message: messages?.[response.status] ??
+      (typeof body.message === "string" ? body.message : undefined),
+    error: typeof body.error === "string" ? body.error : undefined,
+    details: typeof body.details === "object" && body.details !== null
+      ? body.details as Record<string, unknown>
+      : undefined,
+    requestId: response.headers?.get(REQUEST_ID_HEADER) ?? undefined,
+  };
+
+  switch (response.status) {
+    case 400:
+    case 422:
+      return new ValidationError({ ...args, statusCode: response.status });
+    case 401:
+      return new UnauthorizedError(args);
+    case 403:
+      return new ForbiddenError(args);
+    case 404:
+      return new NotFoundError(args);
+    case 409:
+      return new ConflictError(args);
+    case 429:
+      return new RateLimitError({
+        ...args,
+        retryAfterMs: parseRetryAfter(response.headers?.get("retry-after")),
+      });
+  }
+
+  return new APIError({
+    ...args,
+    message: args.message ??
+      "We encountered an error trying to process your request. Please try again later",
+    statusCode: response.status >= 400 ? response.status : 520,
+    error: args.error ?? "UNKNOWN ERROR",
+  });
+}
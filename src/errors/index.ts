@@ -1,2 +1,7 @@
 export * from "@errors/api_error.ts";
 export * from "@errors/permission_error.ts";
+export * from "@errors/timeout_error.ts";
+export * from "@errors/http_errors.ts";
+export * from "@errors/otp_errors.ts";
+export * from "@errors/role_errors.ts";
+export * from "@errors/step_up_error.ts";
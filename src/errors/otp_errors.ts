@@ -0,0 +1,119 @@
+import type { APIError } from "@errors/api_error.ts";
+import {
+  errorFromResponse,
+  type HTTPErrorArgs,
+  RateLimitError,
+  ValidationError,
+} from "@errors/http_errors.ts";
+import { REQUEST_ID_HEADER } from "@shared/interceptors.ts";
+import { parseRetryAfter } from "@shared/retry.ts";
+import type { OtpChallenge } from "@features/auth/repository.ts";
+
+/**
+ * Error thrown by `logIn` when the account requires a second factor.
+ * The login is completed by calling `verifyOtp` with the challenge and the code the user enters.
+ */
+export class OtpRequiredError extends Error {
+  /**
+   * The challenge to complete with `verifyOtp`.
+   * @type {OtpChallenge}
+   */
+  public readonly challenge: OtpChallenge;
+
+  /**
+   * Creates a new `OtpRequiredError` instance.
+   * @param {Object} args - The constructor arguments.
+   * @param {OtpChallenge} args.challenge - The challenge returned by the login.
+   * @param {string} [args.message] - An optional custom error message.
+   */
+  constructor(args: { challenge: OtpChallenge; message?: string }) {
+    super(args.message ?? "Enter the verification code to complete the login");
+    this.name = "OtpRequiredError";
+    this.challenge = args.challenge;
+  }
+}
+
+/**
+ * Error thrown when a one-time code is wrong (HTTP 400).
+ * The user can try again while `attemptsRemaining` is not zero.
+ */
+export class InvalidOtpError extends ValidationError {
+  /**
+   * Number of codes the user can still try, when sent by the server.
+   * @type {number | undefined}
+   */
+  public readonly attemptsRemaining?: number;
+
+  /**
+   * Creates a new `InvalidOtpError` instance.
+   * @param {HTTPErrorArgs & { attemptsRemaining?: number }} [args] - The constructor arguments.
+   */
+  constructor(args?: HTTPErrorArgs & { attemptsRemaining?: number }) {
+    super({
+      ...args,
+      message: args?.message ?? "The verification code is incorrect",
+      statusCode: 400,
+    });
+    this.name = "InvalidOtpError";
+    this.attemptsRemaining = args?.attemptsRemaining;
+  }
+}
+
+/**
+ * Error thrown when too many wrong one-time codes were entered (HTTP 429).
+ * The challenge is locked: the user must log in again, after `retryAfterMs` if set.
+ */
+export class OtpAttemptsExceededError extends RateLimitError {
+  /**
+   * Creates a new `OtpAttemptsExceededError` instance.
+   * @param {HTTPErrorArgs & { retryAfterMs?: number }} [args] - The constructor arguments.
+   */
+  constructor(args?: HTTPErrorArgs & { retryAfterMs?: number }) {
+    super({
+      ...args,
+      message: args?.message ??
+        "Too many incorrect codes. Please log in again",
+    });
+    this.name = "OtpAttemptsExceededError";
+  }
+}
+
+/**
+ * Creates the error matching a failed one-time code verification:
+ * an `InvalidOtpError` for a wrong code, an `OtpAttemptsExceededError` once the attempts
+ * are exhausted, and the `errorFromResponse` error otherwise, e.g. a `NotFoundError`
+ * for an expired challenge.
+ *
+ * @param response - The failed response: its status code, body and headers.
+ * @param messages - Optional messages overriding the body's, by status code.
+ * @returns The `APIError` subclass to throw.
+ */
+export function otpErrorFromResponse(
+  response: { status: number; body: unknown; headers?: Headers },
+  messages?: Partial<Record<number, string>>,
+): APIError {
+  const body = (response.body ?? {}) as Record<string, unknown>;
+  const args: HTTPErrorArgs = {
+    message: messages?.[response.status] ??
+      (typeof body.message === "string" ? body.message : undefined),
+    error: typeof body.error === "string" ? body.error : undefined,
+    requestId: response.headers?.get(REQUEST_ID_HEADER) ?? undefined,
+  };
+
+  switch (response.status) {
+    case 400:
+      return new InvalidOtpError({
+        ...args,
+        attemptsRemaining: typeof body.attemptsRemaining === "number"
+          ? body.attemptsRemaining
+          : undefined,
+      });
+    case 429:
+      return new OtpAttemptsExceededError({
+        ...args,
+        retryAfterMs: parseRetryAfter(response.headers?.get("retry-after")),
+      });
+  }
+
+  return errorFromResponse(response, messages);
+}
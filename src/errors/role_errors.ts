@@ -0,0 +1,29 @@
+import { ConflictError, type HTTPErrorArgs } from "@errors/http_errors.ts";
+
+/**
+ * Error thrown when deleting a role that users are still assigned to (HTTP 409).
+ * Assign them another role first.
+ */
+export class RoleInUseError extends ConflictError {
+  /**
+   * Number of users assigned to the role, when sent by the server.
+   * @type {number | undefined}
+   */
+  public readonly assignedUsers?: number;
+
+  /**
+   * Creates a new `RoleInUseError` instance.
+   * @param {HTTPErrorArgs & { assignedUsers?: number }} [args] - The constructor arguments.
+   */
+  constructor(args?: HTTPErrorArgs & { assignedUsers?: number }) {
+    const { assignedUsers, ...rest } = args ?? {};
+    super({
+      ...rest,
+      message: rest.message ??
+        "This role is still assigned to users. Assign them another role first",
+      error: rest.error ?? "ROLE IN USE",
+    });
+    this.name = "RoleInUseError";
+    if (assignedUsers !== undefined) this.assignedUsers = assignedUsers;
+  }
+}
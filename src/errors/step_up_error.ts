@@ -0,0 +1,63 @@
+import type { StepUpOperation } from "@features/auth/step_up.ts";
+
+/**
+ * Error thrown before a sensitive operation when the user has not confirmed their identity
+ * recently enough. Once they did with `AfloatAuth.confirmStepUp`, `retry` runs the operation again.
+ *
+ * @template T - The result of the operation.
+ */
+export class StepUpRequiredError<T = unknown> extends Error {
+  /**
+   * The operation that requires a recent re-authentication.
+   * @type {StepUpOperation}
+   */
+  public readonly operation: StepUpOperation;
+
+  /**
+   * How recently the user must have re-authenticated, in milliseconds.
+   * @type {number}
+   */
+  public readonly maxAgeMs: number;
+
+  private readonly retryOperation: () => Promise<T>;
+
+  /**
+   * Creates a new `StepUpRequiredError` instance.
+   * @param {Object} args - The constructor arguments.
+   * @param {StepUpOperation} args.operation - The operation that requires a step-up.
+   * @param {number} args.maxAgeMs - How recently the user must have re-authenticated.
+   * @param {() => Promise<T>} args.retry - Runs the operation again.
+   * @param {string} [args.message] - An optional custom error message.
+   */
+  constructor(args: {
+    operation: StepUpOperation;
+    maxAgeMs: number;
+    retry: () => Promise<T>;
+    message?: string;
+  }) {
+    super(args.message ?? "Please confirm your identity to continue");
+    this.name = "StepUpRequiredError";
+    this.operation = args.operation;
+    this.maxAgeMs = args.maxAgeMs;
+    this.retryOperation = args.retry;
+  }
+
+  /**
+   * Runs the operation again, e.g. after `AfloatAuth.confirmStepUp`.
+   * Throws another `StepUpRequiredError` if the user still has not re-authenticated.
+   *
+   * @returns {Promise<T>} The result of the operation
+   *
+   * @example
+   * try {
+   *   await payoutRepo.approve(id);
+   * } catch (error) {
+   *   if (!(error instanceof StepUpRequiredError)) throw error;
+   *   await auth.confirmStepUp({ password: await promptForPassword() });
+   *   await error.retry();
+   * }
+   */
+  retry(): Promise<T> {
+    return this.retryOperation();
+  }
+}
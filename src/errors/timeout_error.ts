@@ -0,0 +1,57 @@
+import { APIError } from "@errors/api_error.ts";
+
+/**
+ * Custom error class representing a request aborted because it took longer than allowed.
+ * Extends {@link APIError} with the `timeoutMs` that was exceeded.
+ */
+export class TimeoutError extends APIError {
+  /**
+   * The time limit, in milliseconds, that the request exceeded.
+   * @type {number}
+   */
+  public readonly timeoutMs: number;
+
+  /**
+   * Creates a new `TimeoutError` instance.
+   * @param {Object} args - The constructor arguments.
+   * @param {number} args.timeoutMs - The time limit that was exceeded, in milliseconds.
+   * @param {string} [args.requestId] - The `x-request-id` of the timed out request.
+   * @param {string} [args.message] - An optional custom error message.
+   */
+  constructor(args: {
+    timeoutMs: number;
+    requestId?: string;
+    message?: string;
+  }) {
+    super({
+      message: args.message ??
+        `The request timed out after ${args.timeoutMs}ms`,
+      statusCode: 408,
+      error: "REQUEST TIMEOUT",
+      requestId: args.requestId,
+    });
+    this.name = "TimeoutError";
+    this.timeoutMs = args.timeoutMs;
+  }
+
+  /**
+   * Checks whether an unknown value is a `TimeoutError`.
+   *
+   * @param {unknown} error - Any value to check
+   * @returns {error is TimeoutError} Type predicate indicating if the value is a TimeoutError
+   *
+   * @example
+   * try {
+   *   await walletRepo.getStatement({}, { timeoutMs: 5_000 });
+   * } catch (err) {
+   *   if (TimeoutError.is(err)) showRetryBanner();
+   * }
+   */
+  public static override is(error: unknown): error is TimeoutError {
+    if (error instanceof TimeoutError) return true;
+
+    const candidate = error as Record<string, unknown> | null;
+    return APIError.is(error) && candidate?.name === "TimeoutError" &&
+      typeof candidate?.timeoutMs === "number";
+  }
+}
@@ -219,6 +219,90 @@ export const userManagementContract = c.router({
     summary: "Get role details",
     description: "Retrieve detailed information about a specific role",
   },
+
+  // Create role
+  createRole: {
+    method: "POST",
+    path: "/role",
+    body: UserManagementSchemas.createRoleRequest,
+    responses: {
+      201: UserManagementSchemas.role,
+      400: z.object({
+        message: z.string().optional(),
+        errors: z.array(z.string()).optional(),
+      }),
+      401: z.object({
+        message: z.string().optional(),
+      }),
+      403: z.object({
+        message: z.string().optional(),
+      }),
+      409: z.object({
+        message: z.string().optional(),
+      }),
+    },
+    summary: "Create role",
+    description: "Create a custom role granting the given permissions",
+  },
+
+  // Update role
+  updateRole: {
+    method: "PATCH",
+    path: "/role/:id",
+    pathParams: z.object({
+      id: z.string(),
+    }),
+    body: UserManagementSchemas.updateRoleRequest,
+    responses: {
+      200: UserManagementSchemas.role,
+      400: z.object({
+        message: z.string().optional(),
+        errors: z.array(z.string()).optional(),
+      }),
+      401: z.object({
+        message: z.string().optional(),
+      }),
+      403: z.object({
+        message: z.string().optional(),
+      }),
+      404: z.object({
+        message: z.string().optional(),
+      }),
+      409: z.object({
+        message: z.string().optional(),
+      }),
+    },
+    summary: "Update role",
+    description: "Rename a role or replace its description or permissions",
+  },
+
+  // Delete role
+  deleteRole: {
+    method: "DELETE",
+    path: "/role/:id",
+    pathParams: z.object({
+      id: z.string(),
+    }),
+    body: z.object({}),
+    responses: {
+      200: z.object({}),
+      401: z.object({
+        message: z.string().optional(),
+      }),
+      403: z.object({
+        message: z.string().optional(),
+      }),
+      404: z.object({
+        message: z.string().optional(),
+      }),
+      409: z.object({
+        message: z.string().optional(),
+        assignedUsers: z.number().optional(),
+      }),
+    },
+    summary: "Delete role",
+    description: "Delete a role no user is assigned to",
+  },
 });
 
 /**
@@ -1,20 +1,21 @@
-import { BaseRepository } from "@shared/base_repository.ts";
+import {
+  BaseRepository,
+  type BaseRepositoryArgs,
+} from "@shared/base_repository.ts";
 import { userManagementContract } from "./contract.ts";
 import type {
+  CreateRoleRequest,
   CreateUserRequest,
   CreateUserResponse,
   ManagedUserQueryParams,
   ResetPasswordRequest,
+  UpdateRoleRequest,
   UpdateUserRequest,
 } from "@features/admin/schemas.ts";
-import type { AfloatAuth } from "@features/auth/manager.ts";
-import {
-  ManagedUser,
-  type ManagedUserData,
-  Permissions,
-} from "@models/index.ts";
-import { PermissionError } from "@errors/index.ts";
+import { ManagedUser, type ManagedUserData } from "@models/index.ts";
+import { APIError, errorFromResponse, RoleInUseError } from "@errors/index.ts";
 import { Role, type RoleData } from "@models/role.ts";
+import type { RequestOptions } from "@shared/request_options.ts";
 
 /**
  * Repository class for managing user accounts through API interactions.
@@ -27,61 +28,60 @@ export class UserManagementRepository
    * @param {Object} [props] - Optional constructor properties
    * @param {AfloatAuth} [props.auth] - Optional auth instance to use
    * @param {string} [props.root] - Optional API root URL
+   * @param {Transport} [props.transport] - Optional transport overriding the global one
+   * @param {AfloatConfigInput} [props.config] - Optional configuration overriding the global one
    */
-  constructor(props?: { auth?: AfloatAuth; root?: string }) {
+  constructor(props?: BaseRepositoryArgs) {
     super("admin", userManagementContract, props);
   }
 
   /**
    * Creates a new user account.
    * @param {CreateUserRequest} input - The data required to create a new user account.
+   * @param {RequestOptions} [options] - Optional signal, timeout and idempotency key
    * @returns {Promise<CreateUserResponse>} A promise that resolves to the newly created user response.
    * @throws {PermissionError} If the user lacks required permissions
+   * @throws {StepUpRequiredError} If the user must confirm their identity first
    * @throws {APIError} If the response status code is not 201.
+   * @throws {TimeoutError} If the request takes longer than the timeout.
    */
-  async createUser(input: CreateUserRequest): Promise<CreateUserResponse> {
-    const auth = this.getAuthForPermissionCheck();
-    const requiredPerm = Permissions.UserManagement.CreateUser;
-
-    if (!auth.checkPermission(requiredPerm)) {
-      throw new PermissionError({
-        message: "You are not authorized to create user accounts.",
-        requiredPermissions: [requiredPerm],
-      });
-    }
+  async createUser(
+    input: CreateUserRequest,
+    options?: RequestOptions,
+  ): Promise<CreateUserResponse> {
+    this.requirePermissions("user.create");
 
-    const result = await this.client.createUser({ body: input });
-    const data = this.handleResponse<CreateUserResponse>(result, 201);
-    return data;
+    return await this.withStepUp("user.create", async () => {
+      const result = await this.clientWith(options).createUser({ body: input });
+      return this.handleResponse<CreateUserResponse>(result, 201);
+    });
   }
 
   /**
    * Updates an existing user account by ID.
    * @param {string} id - The unique identifier of the user account to update.
    * @param {UpdateUserRequest} input - The data to update the user account with.
+   * @param {RequestOptions} [options] - Optional signal, timeout and idempotency key
    * @returns {Promise<ManagedUser>} A promise that resolves to the updated user account.
    * @throws {PermissionError} If the user lacks required permissions
    * @throws {APIError} If the response status code is not 200.
+   * @throws {TimeoutError} If the request takes longer than the timeout.
    */
-  async updateUser(id: string, input: UpdateUserRequest): Promise<ManagedUser> {
-    const auth = this.getAuthForPermissionCheck();
-    const requiredPerm = Permissions.UserManagement.UpdateUser;
-
-    if (!auth.checkPermission(requiredPerm)) {
-      throw new PermissionError({
-        message: "You are not authorized to update user accounts.",
-        requiredPermissions: [requiredPerm],
-      });
-    }
+  async updateUser(
+    id: string,
+    input: UpdateUserRequest,
+    options?: RequestOptions,
+  ): Promise<ManagedUser> {
+    this.requirePermissions("user.update");
 
-    const result = await this.client.updateUser({
+    const result = await this.clientWith(options).updateUser({
       params: { id },
       body: input,
     });
     const data = this.handleResponse<ManagedUserData>(result, 200);
     const managedUser = ManagedUser.from(data);
     if (!managedUser) {
-      throw new Error("Invalid user data received from server");
+      throw APIError.unknown("Invalid user data received from server");
     }
     return managedUser;
   }
@@ -89,26 +89,25 @@ export class UserManagementRepository
   /**
    * Archives (soft deletes) a user account by ID.
    * @param {string} id - The unique identifier of the user account to archive.
+   * @param {RequestOptions} [options] - Optional signal, timeout and idempotency key
    * @returns {Promise<ManagedUser>} A promise with the updated user object.
    * @throws {PermissionError} If the user lacks required permissions
    * @throws {APIError} If the response status code is not 200.
+   * @throws {TimeoutError} If the request takes longer than the timeout.
    */
-  async archiveUser(id: string): Promise<ManagedUser> {
-    const auth = this.getAuthForPermissionCheck();
-    const requiredPerm = Permissions.UserManagement.ArchiveUser;
-
-    if (!auth.checkPermission(requiredPerm)) {
-      throw new PermissionError({
-        message: "You are not authorized to archive users.",
-        requiredPermissions: [requiredPerm],
-      });
-    }
+  async archiveUser(
+    id: string,
+    options?: RequestOptions,
+  ): Promise<ManagedUser> {
+    this.requirePermissions("user.archive");
 
-    const result = await this.client.archiveUser({ params: { id } });
+    const result = await this.clientWith(options).archiveUser({
+      params: { id },
+    });
     const data = this.handleResponse<ManagedUserData>(result, 201);
     const managedUser = ManagedUser.from(data);
     if (!managedUser) {
-      throw new Error("Invalid user data received from server");
+      throw APIError.unknown("Invalid user data received from server");
     }
     return managedUser;
   }
@@ -116,26 +115,25 @@ export class UserManagementRepository
   /**
    * Archives (soft deletes) a user account by ID.
    * @param {string} id - The unique identifier of the user account to archive.
+   * @param {RequestOptions} [options] - Optional signal, timeout and idempotency key
    * @returns {Promise<ManagedUser>} A promise with the updated user object.
    * @throws {PermissionError} If the user lacks required permissions
    * @throws {APIError} If the response status code is not 200.
+   * @throws {TimeoutError} If the request takes longer than the timeout.
    */
-  async unArchiveUser(id: string): Promise<ManagedUser> {
-    const auth = this.getAuthForPermissionCheck();
-    const requiredPerm = Permissions.UserManagement.UnArchiveUser;
-
-    if (!auth.checkPermission(requiredPerm)) {
-      throw new PermissionError({
-        message: "You are not authorized to un-archive users.",
-        requiredPermissions: [requiredPerm],
-      });
-    }
+  async unArchiveUser(
+    id: string,
+    options?: RequestOptions,
+  ): Promise<ManagedUser> {
+    this.requirePermissions("user.unarchive");
 
-    const result = await this.client.unArchiveUser({ params: { id } });
+    const result = await this.clientWith(options).unArchiveUser({
+      params: { id },
+    });
     const data = this.handleResponse<ManagedUserData>(result, 201);
     const managedUser = ManagedUser.from(data);
     if (!managedUser) {
-      throw new Error("Invalid user data received from server");
+      throw APIError.unknown("Invalid user data received from server");
     }
     return managedUser;
   }
@@ -144,25 +142,20 @@ export class UserManagementRepository
    * Resets a user's password.
    * @param {string} id - The unique identifier of the user account.
    * @param {ResetPasswordRequest} [input] - Optional password reset configuration.
+   * @param {RequestOptions} [options] - Optional signal, timeout and idempotency key
    * @returns {Promise<void>} A promise that resolves when the password reset is complete.
    * @throws {PermissionError} If the user lacks required permissions
    * @throws {APIError} If the response status code is not 200.
+   * @throws {TimeoutError} If the request takes longer than the timeout.
    */
   async resetUserPassword(
     id: string,
     input: ResetPasswordRequest = {},
+    options?: RequestOptions,
   ): Promise<{ success: boolean }> {
-    const auth = this.getAuthForPermissionCheck();
-    const requiredPerm = Permissions.UserManagement.ResetPassword;
+    this.requirePermissions("user.resetPassword");
 
-    if (!auth.checkPermission(requiredPerm)) {
-      throw new PermissionError({
-        message: "You are not authorized to reset user passwords.",
-        requiredPermissions: [requiredPerm],
-      });
-    }
-
-    const result = await this.client.resetPassword({
+    const result = await this.clientWith(options).resetPassword({
       params: { id },
       body: input,
     });
@@ -173,27 +166,22 @@ export class UserManagementRepository
    * Retrieves all user accounts.
    * Results are ordered in descending order by creation date by default.
    *
+   * @param {RequestOptions} [options] - Optional signal, timeout and idempotency key
    * @returns {Promise<ManagedUser[]>} A promise that resolves to an array of managed users.
    * @throws {PermissionError} If the user lacks required permissions
    * @throws {APIError} If the response status code is not 200.
+   * @throws {TimeoutError} If the request takes longer than the timeout.
    * @example
    * const repository = new UserManagementRepository();
    * repository.getAllUsers().then(users => console.log(users));
    */
   async getAllUsers(
     query: ManagedUserQueryParams = { eager: "role" },
+    options?: RequestOptions,
   ): Promise<ManagedUser[]> {
-    const auth = this.getAuthForPermissionCheck();
-    const requiredPerm = Permissions.UserManagement.ViewUsers;
+    this.requirePermissions("user.list");
 
-    if (!auth.checkPermission(requiredPerm)) {
-      throw new PermissionError({
-        message: "You are not authorized to view user accounts.",
-        requiredPermissions: [requiredPerm],
-      });
-    }
-
-    const result = await this.client.getUsers({ query });
+    const result = await this.clientWith(options).getUsers({ query });
     const data = this.handleResponse<ManagedUserData[]>(result, 200);
     return ManagedUser.createMany(data);
   }
@@ -202,9 +190,11 @@ export class UserManagementRepository
    * Retrieves a specific user account by ID.
    *
    * @param {string} id - The unique identifier of the user account to retrieve.
+   * @param {RequestOptions} [options] - Optional signal, timeout and idempotency key
    * @returns {Promise<ManagedUser>} A promise that resolves to the managed user.
    * @throws {PermissionError} If the user lacks required permissions
    * @throws {APIError} If the response status code is not 200 or user not found.
+   * @throws {TimeoutError} If the request takes longer than the timeout.
    * @example
    * const repository = new UserManagementRepository();
    * repository.getUser('user-id').then(user => console.log(user));
@@ -212,22 +202,18 @@ export class UserManagementRepository
   async getUser(
     id: string,
     query: ManagedUserQueryParams = { eager: "role" },
+    options?: RequestOptions,
   ): Promise<ManagedUser> {
-    const auth = this.getAuthForPermissionCheck();
-    const requiredPerm = Permissions.UserManagement.ViewUser;
+    this.requirePermissions("user.get");
 
-    if (!auth.checkPermission(requiredPerm)) {
-      throw new PermissionError({
-        message: "You are not authorized to view user account details.",
-        requiredPermissions: [requiredPerm],
-      });
-    }
-
-    const result = await this.client.getUser({ params: { id }, query });
+    const result = await this.clientWith(options).getUser({
+      params: { id },
+      query,
+    });
     const data = this.handleResponse<ManagedUserData>(result, 200);
     const managedUser = ManagedUser.from(data);
     if (!managedUser) {
-      throw new Error("Invalid user data received from server");
+      throw APIError.unknown("Invalid user data received from server");
     }
     return managedUser;
   }
@@ -235,30 +221,24 @@ export class UserManagementRepository
   /**
    * Retrieves all available roles in the system.
    *
+   * @param {RequestOptions} [options] - Optional signal, timeout and idempotency key
    * @returns {Promise<Role[]>} A promise that resolves to an array of roles.
    * @throws {PermissionError} If the user lacks required permissions
    * @throws {APIError} If the response status code is not 200.
+   * @throws {TimeoutError} If the request takes longer than the timeout.
    * @example
    * const repository = new UserManagementRepository();
    * repository.getAllRoles().then(roles => console.log(roles));
    */
-  async getAllRoles(): Promise<Role[]> {
-    const auth = this.getAuthForPermissionCheck();
-    const requiredPerm = Permissions.Role.ViewRoles;
-
-    if (!auth.checkPermission(requiredPerm)) {
-      throw new PermissionError({
-        message: "You are not authorized to view system roles.",
-        requiredPermissions: [requiredPerm],
-      });
-    }
+  async getAllRoles(options?: RequestOptions): Promise<Role[]> {
+    this.requirePermissions("role.list");
 
-    const result = await this.client.getRoles();
+    const result = await this.clientWith(options).getRoles();
     const data = this.handleResponse<RoleData[]>(result, 200);
     return data.map((roleData) => {
       const role = Role.from(roleData);
       if (!role) {
-        throw new Error("Invalid role data received from server");
+        throw APIError.unknown("Invalid role data received from server");
       }
       return role;
     });
@@ -268,30 +248,126 @@ export class UserManagementRepository
    * Retrieves a specific role by ID.
    *
    * @param {string} id - The unique identifier of the role to retrieve.
+   * @param {RequestOptions} [options] - Optional signal, timeout and idempotency key
    * @returns {Promise<Role>} A promise that resolves to the role.
    * @throws {PermissionError} If the user lacks required permissions
    * @throws {APIError} If the response status code is not 200 or role not found.
+   * @throws {TimeoutError} If the request takes longer than the timeout.
    * @example
    * const repository = new UserManagementRepository();
    * repository.getRole('role-id').then(role => console.log(role));
    */
-  async getRole(id: string): Promise<Role> {
-    const auth = this.getAuthForPermissionCheck();
-    const requiredPerm = Permissions.Role.ViewRole;
+  async getRole(id: string, options?: RequestOptions): Promise<Role> {
+    this.requirePermissions("role.get");
 
-    if (!auth.checkPermission(requiredPerm)) {
-      throw new PermissionError({
-        message: "You are not authorized to view role details.",
-        requiredPermissions: [requiredPerm],
-      });
+    const result = await this.clientWith(options).getRole({ params: { id } });
+    const data = this.handleResponse<RoleData>(result, 200);
+    const role = Role.from(data);
+    if (!role) {
+      throw APIError.unknown("Invalid role data received from server");
     }
+    return role;
+  }
+
+  /**
+   * Creates a custom role.
+   *
+   * @param {CreateRoleRequest} input - The role's name, optional description and permissions.
+   * @param {RequestOptions} [options] - Optional signal, timeout and idempotency key
+   * @returns {Promise<Role>} A promise that resolves to the created role.
+   * @throws {PermissionError} If the user lacks required permissions
+   * @throws {ConflictError} If a role with the same name exists.
+   * @throws {APIError} If the response status code is not 201.
+   * @throws {TimeoutError} If the request takes longer than the timeout.
+   * @example
+   * const repository = new UserManagementRepository();
+   * const role = await repository.createRole({
+   *   name: "Cashier",
+   *   access: withPermissionDependencies([Permissions.Payout.Create]),
+   * });
+   */
+  async createRole(
+    input: CreateRoleRequest,
+    options?: RequestOptions,
+  ): Promise<Role> {
+    this.requirePermissions("role.create");
 
-    const result = await this.client.getRole({ params: { id } });
+    const result = await this.clientWith(options).createRole({ body: input });
+    const data = this.handleResponse<RoleData>(result, 201);
+    const role = Role.from(data);
+    if (!role) {
+      throw APIError.unknown("Invalid role data received from server");
+    }
+    return role;
+  }
+
+  /**
+   * Updates a role by ID: renames it, or replaces its description or permissions.
+   * Users assigned to the role get the new permissions on their next refresh or login.
+   *
+   * @param {string} id - The unique identifier of the role to update.
+   * @param {UpdateRoleRequest} input - The fields to change. `access` replaces the whole list.
+   * @param {RequestOptions} [options] - Optional signal, timeout and idempotency key
+   * @returns {Promise<Role>} A promise that resolves to the updated role.
+   * @throws {PermissionError} If the user lacks required permissions
+   * @throws {ConflictError} If another role has the new name.
+   * @throws {APIError} If the response status code is not 200 or role not found.
+   * @throws {TimeoutError} If the request takes longer than the timeout.
+   */
+  async updateRole(
+    id: string,
+    input: UpdateRoleRequest,
+    options?: RequestOptions,
+  ): Promise<Role> {
+    this.requirePermissions("role.update");
+
+    const result = await this.clientWith(options).updateRole({
+      params: { id },
+      body: input,
+    });
     const data = this.handleResponse<RoleData>(result, 200);
     const role = Role.from(data);
     if (!role) {
-      throw new Error("Invalid role data received from server");
+      throw APIError.unknown("Invalid role data received from server");
     }
     return role;
   }
+
+  /**
+   * Deletes a role by ID. Only roles no user is assigned to can be deleted.
+   *
+   * @param {string} id - The unique identifier of the role to delete.
+   * @param {RequestOptions} [options] - Optional signal, timeout and idempotency key
+   * @returns {Promise<void>} A promise that resolves once the role is deleted.
+   * @throws {PermissionError} If the user lacks required permissions
+   * @throws {RoleInUseError} If users are still assigned to the role.
+   * @throws {APIError} If the response status code is not 200 or role not found.
+   * @throws {TimeoutError} If the request takes longer than the timeout.
+   * @example
+   * try {
+   *   await repository.deleteRole(role.id);
+   * } catch (error) {
+   *   if (error instanceof RoleInUseError) showReassignDialog(error.assignedUsers);
+   * }
+   */
+  async deleteRole(id: string, options?: RequestOptions): Promise<void> {
+    this.requirePermissions("role.delete");
+
+    const result = await this.clientWith(options).deleteRole({
+      params: { id },
+    });
+    if (result.status === 200) return;
+
+    const error = errorFromResponse(result);
+    if (result.status === 409) {
+      throw new RoleInUseError({
+        message: error.message,
+        error: error.error,
+        details: error.details,
+        requestId: error.requestId,
+        assignedUsers: result.body.assignedUsers,
+      });
+    }
+    throw error;
+  }
 }
@@ -144,6 +144,26 @@ type _CreateUserResponseType = z.ZodObject<{
   createdAt: z.ZodString;
 }>;
 
+/**
+ * Type definition for create role request schema using Zod.
+ * This is used as a TypeScript type helper for the actual schema implementation.
+ */
+type _CreateRoleRequestType = z.ZodObject<{
+  name: z.ZodString;
+  description: z.ZodOptional<z.ZodString>;
+  access: z.ZodArray<z.ZodString>;
+}>;
+
+/**
+ * Type definition for update role request schema using Zod.
+ * This is used as a TypeScript type helper for the actual schema implementation.
+ */
+type _UpdateRoleRequestType = z.ZodObject<{
+  name: z.ZodOptional<z.ZodString>;
+  description: z.ZodOptional<z.ZodString>;
+  access: z.ZodOptional<z.ZodArray<z.ZodString>>;
+}>;
+
 // ====================== Query Parameter Schema Type Definition ====================== //
 
 /**
@@ -325,6 +345,33 @@ const createUserResponseSchema: _CreateUserResponseType = z.object({
   createdAt: z.string().datetime(),
 });
 
+/**
+ * Schema definition for creating a custom role.
+ *
+ * @property {string} name - Display name of the role
+ * @property {string} description - Optional description of the role
+ * @property {string[]} access - Permissions granted by the role
+ */
+const createRoleRequestSchema: _CreateRoleRequestType = z.object({
+  name: z.string().min(1, "Role name is required"),
+  description: z.string().optional(),
+  access: z.array(z.string().min(1)),
+});
+
+/**
+ * Schema definition for updating a role.
+ * All fields are optional for partial updates; `access` replaces the whole list.
+ *
+ * @property {string} name - Optional new name
+ * @property {string} description - Optional new description
+ * @property {string[]} access - Optional new list of permissions
+ */
+const updateRoleRequestSchema: _UpdateRoleRequestType = z.object({
+  name: z.string().min(1, "Role name cannot be empty").optional(),
+  description: z.string().optional(),
+  access: z.array(z.string().min(1)).optional(),
+});
+
 // ====================== Schema Collections ====================== //
 
 /**
@@ -339,6 +386,8 @@ export const UserManagementSchemas = {
   updateUserRequest: updateUserRequestSchema,
   resetPasswordRequest: resetPasswordRequestSchema,
   createUserResponse: createUserResponseSchema,
+  createRoleRequest: createRoleRequestSchema,
+  updateRoleRequest: updateRoleRequestSchema,
   password: passwordSchema, // Export password schema for reuse
 };
 
@@ -382,6 +431,22 @@ export type CreateUserResponse = z.infer<
   typeof UserManagementSchemas.createUserResponse
 >;
 
+/**
+ * TypeScript type for a create role request object.
+ * Use this type for role creation requests that have been validated against the schema.
+ */
+export type CreateRoleRequest = z.infer<
+  typeof UserManagementSchemas.createRoleRequest
+>;
+
+/**
+ * TypeScript type for an update role request object.
+ * Use this type for role update requests that have been validated against the schema.
+ */
+export type UpdateRoleRequest = z.infer<
+  typeof UserManagementSchemas.updateRoleRequest
+>;
+
 /**
  * TypeScript type for managed user query parameters.
  * Use this type for query parameter objects that have been validated against the schema.
@@ -1,6 +1,43 @@
 import { z } from "zod";
 import { initContract } from "@ts-rest/core";
 import { Profile } from "@models/index.ts";
+import { UserManagementSchemas } from "@features/admin/schemas.ts";
+
+/**
+ * A session opened by logging in, or by verifying the one-time code of a login challenge
+ */
+const sessionSchema: z.ZodObject<{
+  profile: typeof Profile.schema;
+  token: z.ZodString;
+  access: z.ZodArray<z.ZodString>;
+  resetPassword: z.ZodBoolean;
+  expiresIn: z.ZodOptional<z.ZodNumber>;
+}> = z.object({
+  profile: Profile.schema,
+  token: z.string(),
+  access: z.array(z.string()),
+  resetPassword: z.boolean(),
+  expiresIn: z.number().optional(),
+});
+
+/**
+ * A second factor required to complete a login: the one-time code to verify
+ */
+const otpChallengeSchema: z.ZodObject<{
+  challengeId: z.ZodString;
+  method: z.ZodEnum<["totp", "sms"]>;
+  destination: z.ZodOptional<z.ZodString>;
+  expiresIn: z.ZodOptional<z.ZodNumber>;
+  resendIn: z.ZodOptional<z.ZodNumber>;
+  attemptsRemaining: z.ZodOptional<z.ZodNumber>;
+}> = z.object({
+  challengeId: z.string(),
+  method: z.enum(["totp", "sms"]),
+  destination: z.string().optional(),
+  expiresIn: z.number().optional(),
+  resendIn: z.number().optional(),
+  attemptsRemaining: z.number().optional(),
+});
 
 /**
  * Auth API contract
@@ -15,15 +52,53 @@ export const authContract = initContract().router({
       password: z.string(),
     }),
     responses: {
-      201: z.object({
-        profile: Profile.schema,
-        token: z.string(),
-        access: z.array(z.string()),
-        resetPassword: z.boolean(),
-      }),
+      201: sessionSchema,
+      202: otpChallengeSchema,
       400: z.object({}),
     },
   },
+  verifyOtp: {
+    method: "POST",
+    path: "/login/otp",
+    body: z.object({
+      challengeId: z.string(),
+      code: z.string(),
+    }),
+    responses: {
+      201: sessionSchema,
+      400: z.object({
+        message: z.string().optional(),
+        attemptsRemaining: z.number().optional(),
+      }),
+      404: z.object({
+        message: z.string().optional(),
+      }),
+      429: z.object({
+        message: z.string().optional(),
+      }),
+    },
+    summary: "Verify a login one-time code",
+    description:
+      "Completes a login challenged for a second factor with the TOTP or SMS code",
+  },
+  resendOtp: {
+    method: "POST",
+    path: "/login/otp/resend",
+    body: z.object({
+      challengeId: z.string(),
+    }),
+    responses: {
+      200: otpChallengeSchema,
+      404: z.object({
+        message: z.string().optional(),
+      }),
+      429: z.object({
+        message: z.string().optional(),
+      }),
+    },
+    summary: "Resend a login one-time code",
+    description: "Sends a new SMS code for a login challenge",
+  },
   access: {
     method: "GET",
     path: "/access",
@@ -41,4 +116,81 @@ export const authContract = initContract().router({
     }),
     responses: {},
   },
+  confirmStepUp: {
+    method: "POST",
+    path: "/login/confirm",
+    body: z.union([
+      z.object({ password: z.string() }),
+      z.object({ code: z.string() }),
+    ]),
+    responses: {
+      200: z.object({}),
+      400: z.object({
+        message: z.string().optional(),
+        attemptsRemaining: z.number().optional(),
+      }),
+      429: z.object({
+        message: z.string().optional(),
+      }),
+    },
+    summary: "Confirm the user's identity",
+    description:
+      "Re-authenticates the logged in user with their password or a TOTP code before a sensitive operation",
+  },
+  requestPasswordReset: {
+    method: "POST",
+    path: "/password/forgot",
+    body: z.object({
+      identity: z.string().email(),
+    }),
+    responses: {
+      200: z.object({}),
+      400: z.object({
+        message: z.string().optional(),
+      }),
+    },
+    summary: "Request a password reset link",
+    description:
+      "Emails a password reset link to the user, if an account exists for the identity",
+  },
+  verifyPasswordResetToken: {
+    method: "POST",
+    path: "/password/reset/verify",
+    body: z.object({
+      token: z.string(),
+    }),
+    responses: {
+      200: z.object({
+        identity: z.string(),
+        expiresAt: z.string().optional(),
+      }),
+      400: z.object({
+        message: z.string().optional(),
+      }),
+      404: z.object({
+        message: z.string().optional(),
+      }),
+    },
+    summary: "Validate a password reset token",
+    description: "Checks that a reset link's token exists and has not expired",
+  },
+  completePasswordReset: {
+    method: "POST",
+    path: "/password/reset",
+    body: z.object({
+      token: z.string(),
+      newPassword: UserManagementSchemas.password,
+    }),
+    responses: {
+      200: z.object({}),
+      400: z.object({
+        message: z.string().optional(),
+      }),
+      404: z.object({
+        message: z.string().optional(),
+      }),
+    },
+    summary: "Set a new password with a reset token",
+    description: "Sets the user's new password and consumes the reset token",
+  },
 });
@@ -0,0 +1,105 @@
+import type { User } from "@models/user/index.ts";
+import type { Permission } from "@models/permission.ts";
+
+/**
+ * Events emitted by `AfloatAuth`, mapped to the payload passed to their listeners.
+ */
+export interface AuthEvents {
+  /** A user logged in, in this tab or another one */
+  login: { user: User };
+
+  /** The user logged out, in this tab or another one */
+  logout: { user: User };
+
+  /**
+   * The user's permissions changed, e.g. after their role was edited.
+   * Lists the permissions gained and lost.
+   */
+  permissionsChanged: {
+    user: User;
+    added: Permission[];
+    removed: Permission[];
+  };
+
+  /**
+   * The user changed their password. The session is cleared right after,
+   * so the user has to log in again with the new password.
+   */
+  passwordReset: { user: User };
+
+  /**
+   * The API rejected the session's token, e.g. because it expired.
+   * The session has already been cleared when listeners are called.
+   */
+  sessionExpired: { user: User };
+
+  /**
+   * The session's token expires soon and could not be refreshed,
+   * e.g. to let the user save their work before logging in again.
+   */
+  sessionExpiring: { user: User; expiresAt: Date };
+
+  /** The session's token was refreshed before it expired */
+  tokenRefreshed: { user: User };
+}
+
+/** Name of an event emitted by `AfloatAuth` */
+export type AuthEventName = keyof AuthEvents;
+
+/** Listener called with the payload of an `AfloatAuth` event */
+export type AuthEventListener<E extends AuthEventName> = (
+  payload: AuthEvents[E],
+) => void;
+
+/**
+ * Minimal typed event emitter used by `AfloatAuth`, mapping event names to payloads.
+ * Listener errors are logged, so one failing listener never prevents the others from running.
+ *
+ * @template Events - The events emitted, mapped to their payload. Defaults to {@link AuthEvents}.
+ */
+export class AuthEventEmitter<Events extends object = AuthEvents> {
+  private listeners = new Map<keyof Events, Set<(payload: unknown) => void>>();
+
+  /**
+   * Subscribes to an event.
+   * @param {keyof Events} event - The event to subscribe to
+   * @param {(payload: Events[E]) => void} listener - The function called with the event payload
+   * @returns {() => void} A function removing the listener
+   */
+  on<E extends keyof Events>(
+    event: E,
+    listener: (payload: Events[E]) => void,
+  ): () => void {
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener as (payload: unknown) => void);
+    this.listeners.set(event, listeners);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Removes a listener previously added with `on`.
+   * @param {keyof Events} event - The event the listener was added for
+   * @param {(payload: Events[E]) => void} listener - The listener to remove
+   */
+  off<E extends keyof Events>(
+    event: E,
+    listener: (payload: Events[E]) => void,
+  ): void {
+    this.listeners.get(event)?.delete(listener as (payload: unknown) => void);
+  }
+
+  /**
+   * Calls every listener of an event with the given payload.
+   * @param {keyof Events} event - The event to emit
+   * @param {Events[E]} payload - The payload passed to the listeners
+   */
+  emit<E extends keyof Events>(event: E, payload: Events[E]): void {
+    for (const listener of [...(this.listeners.get(event) ?? [])]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Error in "${String(event)}" listener:`, error);
+      }
+    }
+  }
+}
@@ -12,6 +12,7 @@ export const identityContract = initContract().router({
       200: z.object({
         name: z.string(),
         identity: z.string(),
+        resetPassword: z.boolean().optional(),
       }),
     },
   },
@@ -1,7 +1,9 @@
-import { APIError } from "@errors/api_error.ts";
 import { identityContract } from "@features/auth/identity/contract.ts";
 import type { ClientInferResponseBody } from "@ts-rest/core";
-import { TokenRequiredRepository } from "../../../shared/token_required_repository.ts";
+import {
+  TokenRequiredRepository,
+  type TokenRequiredRepositoryArgs,
+} from "../../../shared/token_required_repository.ts";
 
 type GetUserIdentityResponse = ClientInferResponseBody<
   typeof identityContract.getUserCredentials
@@ -15,9 +17,10 @@ export class LoginRepository
   extends TokenRequiredRepository<typeof identityContract> {
   /**
    * Initializes an instance of LoginRepository.
+   * @param {TokenRequiredRepositoryArgs} [args] - Optional transport and configuration overrides
    */
-  constructor() {
-    super("login", identityContract, "");
+  constructor(args?: TokenRequiredRepositoryArgs) {
+    super("login", identityContract, "", undefined, args);
   }
 
   /**
@@ -28,11 +31,6 @@ export class LoginRepository
   async getIdentity(token: string): Promise<GetUserIdentityResponse> {
     this.setToken(token);
     const result = await this.client.getUserCredentials();
-    if (result.status === 200) return result.body;
-
-    throw new APIError({
-      message: "An error occurred while trying to get login credentials",
-      statusCode: 502,
-    });
+    return this.handleResponse<GetUserIdentityResponse>(result, 200);
   }
 }
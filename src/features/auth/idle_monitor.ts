@@ -0,0 +1,191 @@
+import type { AfloatAuth } from "@features/auth/manager.ts";
+import { AuthEventEmitter } from "@features/auth/events.ts";
+
+/**
+ * Source of time used by the {@link IdleMonitor}.
+ * Inject a fake one in tests to control time.
+ */
+export interface IdleClock {
+  /** Current time, in milliseconds since the epoch */
+  now(): number;
+  /** Schedules `callback` after `ms` milliseconds */
+  setTimeout(callback: () => void, ms: number): unknown;
+  /** Cancels a callback scheduled with `setTimeout` */
+  clearTimeout(handle: unknown): void;
+}
+
+/** Clock backed by `Date.now` and the global timers */
+export const systemClock: IdleClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) =>
+    clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * Options of the {@link IdleMonitor}.
+ */
+export interface IdleMonitorOptions {
+  /** Inactivity after which the user is logged out, in milliseconds */
+  timeoutMs: number;
+  /** Time before the logout at which `warning` is emitted, in milliseconds. Defaults to one minute */
+  warningMs?: number;
+  /** Source of time. Defaults to {@link systemClock} */
+  clock?: IdleClock;
+}
+
+/**
+ * Events emitted by the {@link IdleMonitor}, mapped to their payload.
+ */
+export interface IdleMonitorEvents {
+  /** The user will be logged out soon unless they become active, e.g. to show a countdown */
+  warning: { remainingMs: number };
+  /** The user became active again after a `warning` */
+  warningCancelled: undefined;
+  /** The user was logged out for inactivity */
+  timeout: undefined;
+}
+
+/**
+ * Logs the user out after a period of inactivity, with a warning first.
+ *
+ * The monitor does not listen to the DOM itself: the host app reports activity
+ * with `recordActivity`, from whatever signals fit its platform.
+ *
+ * @example
+ * const monitor = new IdleMonitor(AfloatAuth.instance, {
+ *   timeoutMs: 15 * 60_000,
+ *   warningMs: 60_000,
+ * });
+ *
+ * for (const event of ["pointerdown", "keydown", "scroll"]) {
+ *   addEventListener(event, () => monitor.recordActivity(), { passive: true });
+ * }
+ *
+ * monitor.on("warning", () => showCountdown(() => monitor.remainingMs));
+ * monitor.on("warningCancelled", hideCountdown);
+ * monitor.on("timeout", () => router.push("/login?reason=idle"));
+ * monitor.start();
+ */
+export class IdleMonitor {
+  private auth: AfloatAuth;
+  private timeoutMs: number;
+  private warningMs: number;
+  private clock: IdleClock;
+  private events = new AuthEventEmitter<IdleMonitorEvents>();
+
+  private lastActivityAt = 0;
+  private timer: unknown;
+  private running = false;
+  private warned = false;
+
+  /**
+   * Creates an idle monitor. It starts tracking inactivity once `start` is called.
+   * @param {AfloatAuth} auth - The auth instance to log out on timeout
+   * @param {IdleMonitorOptions} options - Timeout, warning and clock options
+   */
+  constructor(auth: AfloatAuth, options: IdleMonitorOptions) {
+    this.auth = auth;
+    this.timeoutMs = options.timeoutMs;
+    this.warningMs = Math.min(options.warningMs ?? 60_000, options.timeoutMs);
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Starts tracking inactivity, counting from now.
+   * @returns {this} This monitor, for chaining
+   */
+  start(): this {
+    this.stop();
+    this.running = true;
+    this.lastActivityAt = this.clock.now();
+    this.schedule();
+    return this;
+  }
+
+  /**
+   * Stops tracking inactivity. The user is not logged out.
+   */
+  stop(): void {
+    this.running = false;
+    this.warned = false;
+    if (this.timer !== undefined) this.clock.clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Reports user activity, resetting the inactivity countdown.
+   * Cheap enough to call on every pointer or key event.
+   */
+  recordActivity(): void {
+    if (!this.running) return;
+
+    this.lastActivityAt = this.clock.now();
+    if (this.warned) {
+      this.warned = false;
+      this.schedule();
+      this.events.emit("warningCancelled", undefined);
+    }
+  }
+
+  /**
+   * Whether the monitor is tracking inactivity.
+   */
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Time left before the user is logged out for inactivity, in milliseconds.
+   */
+  get remainingMs(): number {
+    if (!this.running) return this.timeoutMs;
+    const idleMs = this.clock.now() - this.lastActivityAt;
+    return Math.max(0, this.timeoutMs - idleMs);
+  }
+
+  /**
+   * Subscribes to a monitor event.
+   * @param {keyof IdleMonitorEvents} event - The event to subscribe to
+   * @param {Function} listener - The function called with the event payload
+   * @returns {() => void} A function removing the listener
+   */
+  on<E extends keyof IdleMonitorEvents>(
+    event: E,
+    listener: (payload: IdleMonitorEvents[E]) => void,
+  ): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Schedules the next check: at the warning while not warned yet, at the timeout otherwise.
+   * Activity recorded meanwhile is taken into account when the check runs.
+   */
+  private schedule(): void {
+    if (this.timer !== undefined) this.clock.clearTimeout(this.timer);
+
+    const remaining = this.remainingMs;
+    const delay = this.warned ? remaining : remaining - this.warningMs;
+    this.timer = this.clock.setTimeout(() => this.check(), Math.max(delay, 0));
+  }
+
+  private check(): void {
+    this.timer = undefined;
+    if (!this.running) return;
+
+    const remaining = this.remainingMs;
+    if (remaining <= 0) return this.expire();
+
+    if (!this.warned && remaining <= this.warningMs) {
+      this.warned = true;
+      this.events.emit("warning", { remainingMs: remaining });
+    }
+    this.schedule();
+  }
+
+  private expire(): void {
+    this.stop();
+    this.auth.logOut();
+    this.events.emit("timeout", undefined);
+  }
+}
@@ -1,4 +1,27 @@
 export * from "@features/auth/manager.ts";
+export * from "@features/auth/events.ts";
+export * from "@features/auth/idle_monitor.ts";
+export * from "@features/auth/scope.ts";
+export * from "@features/auth/middleware/common.ts";
+export * from "@features/auth/middleware/express.ts";
+export * from "@features/auth/middleware/hono.ts";
+export * from "@features/auth/middleware/next.ts";
+export * from "@features/auth/operations.ts";
+export * from "@features/auth/session_expiry.ts";
+export * from "@features/auth/step_up.ts";
+export * from "@features/auth/storage/session_storage.ts";
+export * from "@features/auth/storage/session_cookie.ts";
+export * from "@features/auth/storage/cookie_token_handler.ts";
+export {
+  configureUserCache,
+  DEFAULT_USER_CACHE_TTL_MS,
+  invalidateCachedUser,
+  MemoryUserCache,
+  resetUserCache,
+  type UserCache,
+  UserCacheContext,
+  type UserCacheOptions,
+} from "@features/auth/storage/user_cache.ts";
 export * from "@features/auth/repository.ts"
 export * from "@features/auth/profile/repository.ts"
 export * from "@features/auth/identity/repository.ts"
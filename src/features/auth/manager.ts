@@ -1,5 +1,9 @@
-import { AuthRepository } from "@features/auth/repository.ts";
-import type { User } from "@models/index.ts";
+import {
+  AuthRepository,
+  type OtpChallenge,
+  type PasswordResetTokenInfo,
+} from "@features/auth/repository.ts";
+import { User } from "@models/index.ts";
 import type { Permission } from "@models/permission.ts";
 import type { AuthStore, TokenHandler } from "@features/auth/storage/types.ts";
 import {
@@ -7,17 +11,76 @@ import {
   useClientUser,
 } from "@features/auth/storage/client_store.ts";
 import { ClientTokenHandler } from "@features/auth/storage/client_token_handler.ts";
+import {
+  createSessionStorage,
+  type SessionStorageAdapter,
+} from "@features/auth/storage/session_storage.ts";
 import { ServerStore } from "@features/auth/storage/server_store.ts";
 import { ServerTokenHandler } from "@features/auth/storage/server_token_handler.ts";
+import type { CookieTokenHandler } from "@features/auth/storage/cookie_token_handler.ts";
+import type { AfloatConfigInput } from "@shared/config.ts";
+import { errorFromResponse, UnauthorizedError } from "@errors/http_errors.ts";
+import { APIError } from "@errors/api_error.ts";
+import { configureTransport, TransportContext } from "@shared/transport.ts";
+import {
+  DEFAULT_SESSION_EXPIRY_OPTIONS,
+  type SessionExpiryOptions,
+} from "@features/auth/session_expiry.ts";
+import type {
+  StepUpCredentials,
+  StepUpOperation,
+  StepUpOptions,
+} from "@features/auth/step_up.ts";
+import {
+  missingPermissions,
+  type RepositoryOperation,
+} from "@features/auth/operations.ts";
+import { getScopedAuth } from "@features/auth/scope.ts";
+import { TabSync, type TabSyncMessage } from "@features/auth/tab_sync.ts";
+import {
+  CSRF_HEADER,
+  readCsrfCookie,
+} from "@features/auth/storage/session_cookie.ts";
+import {
+  cacheUser,
+  getCachedUser,
+  invalidateCachedUser,
+  resolveUserCache,
+  UserCacheContext,
+  type UserCacheOptions,
+} from "@features/auth/storage/user_cache.ts";
+import {
+  AuthEventEmitter,
+  type AuthEventListener,
+  type AuthEventName,
+} from "@features/auth/events.ts";
+
+/**
+ * State of an auth instance's session, see `AfloatAuth.sessionState`.
+ */
+export type SessionState = "anonymous" | "passwordChangeRequired" | "active";
+
+/** Longest delay `setTimeout` supports, in milliseconds */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/** Auth instance set globally, e.g. the client-side singleton */
+let globalAuth: AfloatAuth | undefined;
 
 /**
  * Global context to hold the current auth instance reference.
  * This provides a way to access the auth instance across the application
  * without directly coupling to the singleton pattern.
+ *
+ * Reading `current` inside `runWithAuth` returns the auth instance of that scope,
+ * so concurrent server requests never see each other's instance.
  */
-export const AuthContext = {
-  // Default undefined state - will be set during initialization
-  current: undefined as AfloatAuth | undefined,
+export const AuthContext: { current: AfloatAuth | undefined } = {
+  get current(): AfloatAuth | undefined {
+    return getScopedAuth() ?? globalAuth;
+  },
+  set current(auth: AfloatAuth | undefined) {
+    globalAuth = auth;
+  },
 };
 
 /**
@@ -33,20 +96,66 @@ export class AfloatAuth {
 
   /** client AfloatAuth instance */
   private static _instance: AfloatAuth | null = null;
+
+  /**
+   * Configuration overriding the global one for this instance.
+   * Repositories using this instance read it as well.
+   */
+  readonly config: AfloatConfigInput | undefined;
+
+  /** Cache holding this instance's user, for server-side instances */
+  private userCache: UserCacheOptions | undefined;
+
+  /** Emitter of the events listeners subscribe to with `on` */
+  private events = new AuthEventEmitter();
+
+  /** How the expiry of the session's token is anticipated */
+  private sessionExpiry: SessionExpiryOptions = DEFAULT_SESSION_EXPIRY_OPTIONS;
+
+  /** Timer firing when the session's token is about to expire, then when it expires */
+  private expiryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  /** Token whose upcoming expiry was already refreshed or warned about */
+  private expiryHandledFor: string | undefined;
+
+  /** Which sensitive operations require a recent re-authentication, if any */
+  private stepUp: StepUpOptions | undefined;
+
+  /** When the user last entered their password or a one-time code, in milliseconds */
+  private lastStepUpAt: number | undefined;
+
+  /** Channel sharing session changes with the other tabs, for client-side instances */
+  private tabSync: TabSync | undefined;
+
+  /** Timer of the periodic user refresh, if enabled */
+  private userRefreshTimer: ReturnType<typeof setInterval> | undefined;
+
+  /** Root URL of the backend-for-frontend proxy, for instances created with `initializeProxyClient` */
+  private proxyBaseUrl: string | undefined;
   
   /**
    * Private constructor to maintain control over instantiation.
    * @param {AuthStore} store - The auth store implementation to use
    * @param {TokenHandler} tokenHandler - The token handler implementation to use
+   * @param {AfloatConfigInput} [config] - Configuration overriding the global one
+   * @param {UserCacheOptions} [userCache] - Cache holding the user, for server-side instances
    */
-  private constructor(store: AuthStore, tokenHandler: TokenHandler) {
+  private constructor(
+    store: AuthStore,
+    tokenHandler: TokenHandler,
+    config?: AfloatConfigInput,
+    userCache?: UserCacheOptions,
+  ) {
     this.store = store;
     this.tokenHandler = tokenHandler;
+    this.config = config;
+    this.userCache = userCache;
   }
 
   /**
    * Gets or creates the client-side singleton instance of AfloatAuth.
-   * This getter will automatically initialize the client instance if it hasn't been created yet.
+   * This getter will automatically initialize the client instance if it hasn't been created yet,
+   * persisting the session in `sessionStorage`; use initializeClient() to choose another storage.
    * For server-side usage, use initializeServer() instead.
    *
    * @returns {AfloatAuth} The client-side singleton instance
@@ -59,50 +168,177 @@ export class AfloatAuth {
    */
   public static get instance(): AfloatAuth {
     if (!AfloatAuth._instance) {
-      AfloatAuth._instance = new AfloatAuth(
-        createClientStore(),
-        ClientTokenHandler.instance
-      );
-      
-      // Set as current instance for global access
-      AuthContext.current = AfloatAuth._instance;
+      return AfloatAuth.initializeClient();
     }
     
     return AfloatAuth._instance;
   }
 
+  /**
+   * Creates the client-side singleton instance of AfloatAuth with the given options,
+   * replacing the previous instance if any. Call it once, before the first use of `instance`.
+   *
+   * @param {Object} [options] - Optional initialization options
+   * @param {SessionStorageAdapter} [options.storage] - Where the session is persisted.
+   * Defaults to `sessionStorage`, falling back to memory where it is unavailable.
+   * @param {boolean} [options.syncTabs=true] - Whether logins, logouts and user updates
+   * are shared with the other open tabs
+   * @returns {AfloatAuth} The client-side singleton instance
+   *
+   * @example
+   * // "Remember me": keep the session after the browser is closed
+   * AfloatAuth.initializeClient({
+   *   storage: rememberMe ? createLocalStorage() : createSessionStorage(),
+   * });
+   *
+   * // React Native, with a synchronous store such as MMKV
+   * AfloatAuth.initializeClient({
+   *   storage: {
+   *     getItem: (key) => mmkv.getString(key) ?? null,
+   *     setItem: (key, value) => mmkv.set(key, value),
+   *     removeItem: (key) => mmkv.delete(key),
+   *   },
+   * });
+   */
+  public static initializeClient(
+    options?: { storage?: SessionStorageAdapter; syncTabs?: boolean },
+  ): AfloatAuth {
+    const storage = options?.storage ?? createSessionStorage();
+    AfloatAuth._instance?.stopSessionExpiry();
+    AfloatAuth._instance?.stopUserRefresh();
+    AfloatAuth._instance?.tabSync?.close();
+
+    const auth = new AfloatAuth(
+      createClientStore(storage),
+      new ClientTokenHandler(storage),
+    );
+    if (options?.syncTabs !== false) {
+      auth.tabSync = new TabSync((message) =>
+        void auth.applyTabMessage(message).catch((error) =>
+          console.error(
+            "Failed to apply a session change from another tab:",
+            error,
+          )
+        )
+      );
+    }
+    AfloatAuth._instance = auth;
+
+    // Set as current instance for global access
+    AuthContext.current = auth;
+    auth.scheduleSessionExpiry();
+
+    return auth;
+  }
+
+  /**
+   * Initializes the client-side singleton for a backend-for-frontend proxy created with
+   * `createAfloatProxy`, so the browser never holds the API token: repositories send their
+   * requests to the proxy, which injects the token of the httpOnly session cookie.
+   *
+   * The user is loaded from the proxy's session route, with a placeholder token.
+   * Logging in, including `verifyOtp` and `resendOtp`, happens on the server, which issues
+   * the session cookies: the proxy does not forward the routes returning the token.
+   *
+   * @param {Object} options - Proxy and client options
+   * @param {string} options.baseUrl - URL the proxy is mounted at, e.g. "/api/afloat"
+   * @param {SessionStorageAdapter} [options.storage] - Where the user is persisted
+   * @param {boolean} [options.syncTabs=true] - Whether user updates are shared with the other tabs
+   * @returns {Promise<AfloatAuth>} The client-side singleton, without a user if there is no session
+   *
+   * @example
+   * const auth = await AfloatAuth.initializeProxyClient({ baseUrl: "/api/afloat" });
+   * const balance = await new WalletRepo().getBalance({});
+   */
+  public static async initializeProxyClient(
+    options: {
+      baseUrl: string;
+      storage?: SessionStorageAdapter;
+      syncTabs?: boolean;
+    },
+  ): Promise<AfloatAuth> {
+    const baseUrl = options.baseUrl.replace(/\/+$/, "");
+    configureTransport({ baseUrl, proxy: true });
+
+    const auth = AfloatAuth.initializeClient(options);
+    auth.proxyBaseUrl = baseUrl;
+
+    try {
+      auth.saveSession(await auth.fetchProxySession(baseUrl));
+    } catch (error) {
+      if (!(error instanceof UnauthorizedError)) throw error;
+      auth.clearSavedData();
+    }
+    return auth;
+  }
+
   /**
    * Creates a new server-side instance of AfloatAuth.
    * Unlike the client-side instance getter, this creates a new instance each time.
+   * The instance is not set globally: pass it to repositories explicitly,
+   * or run the request's code with `runWithAuth`.
+   * Earlier versions also set `AuthContext.current`; see the changelog for the migration.
+   *
+   * Passing a `CookieTokenHandler` bootstraps the instance from the request's session cookie;
+   * token changes are then reflected in the handler's `setCookieHeaders`.
    *
-   * @param {string} token - Authentication token
+   * @param {string | CookieTokenHandler} token - Authentication token, or the handler of the
+   * session cookie to read it from
+   * @param {Object} [options] - Optional initialization options
+   * @param {AfloatConfigInput} [options.config] - Configuration overriding the global one
+   * @param {Partial<UserCacheOptions> | false} [options.cache] - User cache overriding the one
+   * set with `configureUserCache`, or `false` to always fetch the user
    * @returns {Promise<AfloatAuth>} A new server-side instance
-   * @throws {Error} If token is invalid or required data cannot be fetched
+   * @throws {Error} If token is invalid or required data cannot be fetched.
+   * The `APIError` of the failed request, if any, is its `cause`.
+   *
+   * @example
+   * const cookies = new CookieTokenHandler(request.headers.get("cookie"));
+   * const auth = await AfloatAuth.initializeServer(cookies);
    */
-  public static async initializeServer(token: string): Promise<AfloatAuth> {
+  public static async initializeServer(
+    tokenOrCookies: string | CookieTokenHandler,
+    options?: {
+      config?: AfloatConfigInput;
+      cache?: Partial<UserCacheOptions> | false;
+    },
+  ): Promise<AfloatAuth> {
+    const cookies = typeof tokenOrCookies === "string"
+      ? undefined
+      : tokenOrCookies;
+    const token = typeof tokenOrCookies === "string"
+      ? tokenOrCookies
+      : tokenOrCookies.getUserToken();
     if (!token) {
       throw new Error("Token is required for server initialization");
     }
 
-    const tokenHandler = new ServerTokenHandler(token);
+    const config = options?.config;
+    const tokenHandler = new ServerTokenHandler(token, config);
     const store = new ServerStore();
+    const cache = options?.cache === false
+      ? undefined
+      : options?.cache
+      ? resolveUserCache(options.cache)
+      : UserCacheContext.current;
 
     try {
-      // Fetch and construct user data
-      const user = await tokenHandler.constructUser(token);
+      // Reuse the cached user, or fetch and construct user data
+      let user = cache ? await getCachedUser(cache, token) : undefined;
+      if (!user) {
+        user = await tokenHandler.constructUser(token);
+        if (cache) await cacheUser(cache, user);
+      }
       store.setUser(user);
 
       // Create and initialize auth instance
-      const auth = new AfloatAuth(store, tokenHandler);
-      
-      // Set as current instance for global access
-      AuthContext.current = auth;
-      
-      return auth;
+      return new AfloatAuth(store, cookies ?? tokenHandler, config, cache);
     } catch (error) {
       if (error instanceof Error) {
         console.log(error.stack);
-        throw new Error(`Failed to initialize server auth: ${error.message}`);
+        throw new Error(`Failed to initialize server auth: ${error.message}`, {
+          cause: error,
+        });
       }
 
       throw new Error("Failed to initialize server auth");
@@ -115,7 +351,7 @@ export class AfloatAuth {
    * @returns {AuthRepository} The repository for auth operations
    */
   private get repo(): AuthRepository {
-    return new AuthRepository();
+    return new AuthRepository({ config: this.config });
   }
 
   /**
@@ -134,6 +370,114 @@ export class AfloatAuth {
     return this.store.getUser();
   }
 
+  /**
+   * Gets the state of the session, e.g. to force the change password screen:
+   * - `anonymous`: no user is logged in
+   * - `passwordChangeRequired`: the user must change their password with `resetPassword`.
+   *   Repositories refuse every other operation until then.
+   * - `active`: the user can use the SDK within their permissions
+   * @returns {SessionState} The current session state
+   */
+  get sessionState(): SessionState {
+    const user = this.currentUser;
+    if (!user) return "anonymous";
+    return user.resetPassword ? "passwordChangeRequired" : "active";
+  }
+
+  /**
+   * Gets when the current token expires, if known.
+   * @returns {Date | undefined} The expiry date, or undefined if not authenticated or unknown
+   */
+  get expiresAt(): Date | undefined {
+    return this.currentUser?.expiresAt;
+  }
+
+  /**
+   * Checks whether the current token expires within the given time.
+   * Tokens whose expiry is unknown are assumed not to expire.
+   *
+   * @param {number} ms - The time window, in milliseconds
+   * @returns {boolean} True if the token expires within `ms`, or already expired
+   *
+   * @example
+   * // Avoid starting a payout batch the session cannot finish
+   * if (auth.willExpireWithin(5 * 60_000)) await confirmReLogin();
+   */
+  willExpireWithin(ms: number): boolean {
+    const expiresAt = this.expiresAt;
+    if (!expiresAt) return false;
+    return expiresAt.getTime() - Date.now() <= ms;
+  }
+
+  /**
+   * Configures how the expiry of the client-side session's token is anticipated.
+   * Shortly before the token expires, it is refreshed with `refreshToken` when provided;
+   * otherwise, or when refreshing fails, `sessionExpiring` is emitted.
+   * Once the token expires, the session is cleared and `sessionExpired` is emitted.
+   *
+   * @param {Partial<SessionExpiryOptions>} options - The options to set
+   *
+   * @example
+   * AfloatAuth.instance.configureSessionExpiry({
+   *   leadTimeMs: 5 * 60_000,
+   *   refreshToken: async () => (await fetch("/api/session/refresh")).text(),
+   * });
+   */
+  configureSessionExpiry(options: Partial<SessionExpiryOptions>): void {
+    this.sessionExpiry = { ...this.sessionExpiry, ...options };
+    this.scheduleSessionExpiry();
+  }
+
+  /**
+   * Requires a recent re-authentication before sensitive operations, e.g. approving payouts.
+   * Repositories then throw a `StepUpRequiredError` for these operations until the user
+   * confirms their identity with `confirmStepUp`. Logging in counts as a confirmation.
+   *
+   * @param {StepUpOptions | undefined} options - The options to set, or undefined to disable step-up
+   *
+   * @example
+   * AfloatAuth.instance.configureStepUp({
+   *   maxAgeMs: 5 * 60_000,
+   *   operations: { "user.create": 60_000 },
+   * });
+   */
+  configureStepUp(options: StepUpOptions | undefined): void {
+    this.stepUp = options;
+  }
+
+  /**
+   * Checks whether an operation requires the user to confirm their identity first.
+   *
+   * @param {StepUpOperation} operation - The sensitive operation
+   * @returns {number | undefined} How recently the user must have re-authenticated, in milliseconds,
+   * if they have not; undefined if the operation can proceed
+   */
+  stepUpRequiredFor(operation: StepUpOperation): number | undefined {
+    if (!this.stepUp) return undefined;
+
+    const maxAgeMs = this.stepUp.operations?.[operation] ?? this.stepUp.maxAgeMs;
+    if (maxAgeMs === false) return undefined;
+
+    const confirmed = this.lastStepUpAt !== undefined &&
+      Date.now() - this.lastStepUpAt <= maxAgeMs;
+    return confirmed ? undefined : maxAgeMs;
+  }
+
+  /**
+   * Confirms the user's identity before sensitive operations, e.g. to resolve a
+   * `StepUpRequiredError` before calling its `retry`.
+   *
+   * @param {StepUpCredentials} credentials - The user's password, or a code from their authenticator app
+   * @returns {Promise<void>} Promise resolving once the identity is confirmed
+   * @throws {ValidationError} If the password is wrong
+   * @throws {InvalidOtpError} If the code is wrong
+   */
+  async confirmStepUp(credentials: StepUpCredentials): Promise<void> {
+    const token = this.getUserToken();
+    await this.repo.confirmStepUp(credentials);
+    if (token && this.getUserToken() === token) this.lastStepUpAt = Date.now();
+  }
+
   /**
    * React hook for accessing the current user in client-side code.
    * @throws {Error} If called in a server environment
@@ -152,23 +496,79 @@ export class AfloatAuth {
     return this.currentUser?.can(perm) ?? false;
   }
 
+  /**
+   * Checks if the current user has the permissions a repository operation requires,
+   * e.g. to only render the buttons of the operations they may call.
+   * @param {RepositoryOperation} operation - The operation, e.g. "payout.approve"
+   * @returns {boolean} True if the user may call the operation, false otherwise
+   *
+   * @example
+   * const showApprove = auth.canCall("payout.approve");
+   */
+  canCall(operation: RepositoryOperation): boolean {
+    const missing = missingPermissions(
+      operation,
+      (perm) => this.checkPermission(perm),
+    );
+    return missing.length === 0;
+  }
+
   /**
    * Authenticates a user with email and password.
    * @param {string} email - The user's email
    * @param {string} password - The user's password
    * @returns {Promise<User>} Promise resolving to the authenticated user
+   * @throws {OtpRequiredError} If the account requires a second factor: complete the login
+   * with `verifyOtp`
    * @throws Will throw an error if authentication fails
+   *
+   * @example
+   * try {
+   *   await auth.logIn(email, password);
+   * } catch (error) {
+   *   if (!(error instanceof OtpRequiredError)) throw error;
+   *   const code = await promptForCode(error.challenge);
+   *   await auth.verifyOtp(error.challenge, code);
+   * }
    */
   async logIn(email: string, password: string): Promise<User> {
     const user = await this.repo.logIn(email, password);
-    this.clearSavedData();
-    this.store.setUser(user);
-    this.tokenHandler.setUserToken(user.token);
+    this.startSession(user);
+    return user;
+  }
+
+  /**
+   * Completes a login challenged for a second factor with the TOTP or SMS code the user entered.
+   * @param {OtpChallenge | string} challenge - The challenge thrown by `logIn`, or its id
+   * @param {string} code - The one-time code
+   * @returns {Promise<User>} Promise resolving to the authenticated user
+   * @throws {InvalidOtpError} If the code is wrong; the user may try again
+   * @throws {OtpAttemptsExceededError} If too many wrong codes were entered; the user must log in again
+   */
+  async verifyOtp(
+    challenge: OtpChallenge | string,
+    code: string,
+  ): Promise<User> {
+    const id = typeof challenge === "string" ? challenge : challenge.id;
+    const user = await this.repo.verifyOtp(id, code.trim());
+    this.startSession(user);
     return user;
   }
 
   /**
-   * Updates the user's password.
+   * Sends a new SMS code for a login challenge.
+   * @param {OtpChallenge | string} challenge - The challenge thrown by `logIn`, or its id
+   * @returns {Promise<OtpChallenge>} Promise resolving to the updated challenge
+   * @throws {RateLimitError} If a code was sent too recently
+   */
+  resendOtp(challenge: OtpChallenge | string): Promise<OtpChallenge> {
+    const id = typeof challenge === "string" ? challenge : challenge.id;
+    return this.repo.resendOtp(id);
+  }
+
+  /**
+   * Updates the user's password, then logs them out.
+   * Emits `passwordReset`, then `logout`.
    * @param {string} current - The current password
    * @param {string} updated - The new password
    * @returns {Promise<boolean>} Promise resolving to true if successful
@@ -176,15 +576,396 @@ export class AfloatAuth {
    */
   async resetPassword(current: string, updated: string): Promise<boolean> {
     await this.repo.updatePassword(current, updated);
-    this.clearSavedData();
+    const user = this.currentUser;
+    if (user) this.events.emit("passwordReset", { user });
+    this.logOut();
     return true;
   }
 
   /**
-   * Logs out the current user.
+   * Requests a password reset link for a user who cannot log in.
+   * Resolves whether or not an account exists for the email.
+   * @param {string} email - The user's email
+   * @returns {Promise<void>} Promise resolving once the link is requested
+   * @throws Will throw an error if the request fails
+   */
+  requestPasswordReset(email: string): Promise<void> {
+    return this.repo.requestPasswordReset(email);
+  }
+
+  /**
+   * Checks the token of a password reset link.
+   * @param {string} token - The token from the reset link
+   * @returns {Promise<PasswordResetTokenInfo>} Promise resolving to the account the token belongs to
+   * @throws Will throw an error if the token is invalid or has expired
+   */
+  verifyPasswordResetToken(token: string): Promise<PasswordResetTokenInfo> {
+    return this.repo.verifyPasswordResetToken(token);
+  }
+
+  /**
+   * Sets a new password with the token of a password reset link.
+   * The user then logs in with `logIn` and the new password.
+   * @param {string} token - The token from the reset link
+   * @param {string} newPassword - The new password, checked against the strong password rules
+   * @returns {Promise<boolean>} Promise resolving to true if successful
+   * @throws Will throw an error if the password is too weak or the token is invalid
+   */
+  completePasswordReset(token: string, newPassword: string): Promise<boolean> {
+    return this.repo.completePasswordReset(token, newPassword);
+  }
+
+  /**
+   * Logs out the current user, in every open tab.
+   * On instances created with `initializeProxyClient`, the proxy's session cookies are
+   * cleared as well, so reloading the page does not restore the session.
+   * Emits `logout` if a user was logged in.
    */
   logOut(): void {
+    const user = this.currentUser;
+    this.clearSavedData();
+    if (this.proxyBaseUrl) this.endProxySession(this.proxyBaseUrl);
+    this.tabSync?.post({ type: "logout", expired: false });
+    if (user) this.events.emit("logout", { user });
+  }
+
+  /**
+   * Re-fetches the current user's access list, profile and identity, e.g. after an admin
+   * changed their role, and updates the session without logging in again.
+   * Emits `permissionsChanged` when the permissions differ.
+   *
+   * @returns {Promise<User | undefined>} The refreshed user, or undefined if not authenticated
+   * @throws {APIError} If fetching the user fails. On a 401 the session is expired as well.
+   *
+   * @example
+   * await userManagementRepo.updateUser(id, { roleId });
+   * await AfloatAuth.instance.refreshUser();
+   */
+  refreshUser(): Promise<User | undefined> {
+    return this.fetchUser(true);
+  }
+
+  /**
+   * Re-fetches the current user for `refreshUser`, or for a change signalled by another tab.
+   * @private
+   * @param {boolean} broadcast - Whether to signal the update to the other tabs
+   */
+  private async fetchUser(broadcast: boolean): Promise<User | undefined> {
+    const previous = this.currentUser;
+    if (!previous) return undefined;
+
+    const token = previous.token;
+    const handler = new ServerTokenHandler(token, this.config);
+    let fetched: User;
+    try {
+      fetched = this.proxyBaseUrl
+        ? await this.fetchProxySession(this.proxyBaseUrl)
+        : await handler.constructUser(token);
+    } catch (error) {
+      if (error instanceof UnauthorizedError) this.handleUnauthorized(token);
+      throw error;
+    }
+
+    // The session may have ended or changed while fetching
+    if (this.currentUser?.token !== token) return this.currentUser;
+
+    const user = User.from({
+      ...JSON.parse(fetched.toJSON()),
+      resetPassword: previous.resetPassword,
+      expiresAt: previous.expiresAt,
+    }) ?? fetched;
+
+    this.store.setUser(user);
+    if (this.userCache) await cacheUser(this.userCache, user);
+    if (broadcast) this.tabSync?.post({ type: "userUpdated" });
+    this.emitPermissionChanges(previous, user);
+    return user;
+  }
+
+  /**
+   * Refreshes the current user periodically with `refreshUser`, replacing any previous schedule.
+   * Failures are logged, and skipped while no user is logged in.
+   *
+   * @param {number} intervalMs - Time between two refreshes, in milliseconds
+   * @returns {() => void} A function stopping the periodic refresh
+   *
+   * @example
+   * // Pick up role changes within five minutes
+   * const stop = AfloatAuth.instance.startUserRefresh(5 * 60_000);
+   */
+  startUserRefresh(intervalMs: number): () => void {
+    this.stopUserRefresh();
+
+    const timer = setInterval(() => {
+      if (!this.currentUser) return;
+      this.refreshUser().catch((error) =>
+        console.error("Failed to refresh the user:", error)
+      );
+    }, intervalMs);
+    this.userRefreshTimer = timer;
+
+    return () => {
+      if (this.userRefreshTimer === timer) this.stopUserRefresh();
+    };
+  }
+
+  /**
+   * Stops the periodic user refresh started with `startUserRefresh`.
+   */
+  stopUserRefresh(): void {
+    clearInterval(this.userRefreshTimer);
+    this.userRefreshTimer = undefined;
+  }
+
+  /**
+   * Subscribes to an auth event: `login`, `logout`, `sessionExpired`, `sessionExpiring`,
+   * `tokenRefreshed`, `permissionsChanged` or `passwordReset`.
+   * Unlike `useCurrentUser`, it works outside React, e.g. for analytics or route guards.
+   *
+   * @param {AuthEventName} event - The event to subscribe to
+   * @param {AuthEventListener} listener - The function called when the event is emitted
+   * @returns {() => void} A function removing the listener
+   *
+   * @example
+   * AfloatAuth.instance.on("sessionExpired", () => router.push("/login"));
+   * AfloatAuth.instance.on("login", ({ user }) => analytics.identify(user.identity));
+   * AfloatAuth.instance.on("logout", () => queryClient.clear());
+   */
+  on<E extends AuthEventName>(
+    event: E,
+    listener: AuthEventListener<E>,
+  ): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Handles a 401 response received for a request sent with the given token.
+   * Clears the session (and the cached user, on the server) and emits `sessionExpired`,
+   * once per session: requests still in flight with the same token, or sent with
+   * a previous one, are ignored.
+   *
+   * @param {string} token - The token the rejected request was sent with
+   */
+  handleUnauthorized(token: string): void {
+    const user = this.currentUser;
+    if (!user || this.getUserToken() !== token) return;
+
     this.clearSavedData();
+    invalidateCachedUser(token, this.userCache).catch((error) =>
+      console.error("Failed to invalidate the cached user:", error)
+    );
+    this.tabSync?.post({ type: "logout", expired: true });
+    this.events.emit("sessionExpired", { user });
+  }
+
+  /**
+   * Schedules the timer anticipating the expiry of the current token, replacing any previous one.
+   * @private
+   */
+  private scheduleSessionExpiry(): void {
+    this.stopSessionExpiry();
+
+    const user = this.currentUser;
+    if (!user?.expiresAt) return;
+
+    const remaining = user.expiresAt.getTime() - Date.now();
+    const delay = this.expiryHandledFor === user.token
+      ? remaining
+      : remaining - this.sessionExpiry.leadTimeMs;
+
+    this.expiryTimer = setTimeout(
+      () => this.onSessionTimer(user.token),
+      Math.min(Math.max(delay, 0), MAX_TIMER_DELAY_MS),
+    );
+  }
+
+  /**
+   * Cancels the timer anticipating the expiry of the current token.
+   * @private
+   */
+  private stopSessionExpiry(): void {
+    clearTimeout(this.expiryTimer);
+    this.expiryTimer = undefined;
+  }
+
+  /**
+   * Refreshes or warns about the token about to expire, or expires the session once it has.
+   * @private
+   */
+  private async onSessionTimer(token: string): Promise<void> {
+    const user = this.currentUser;
+    if (!user?.expiresAt || user.token !== token) return;
+
+    const remaining = user.expiresAt.getTime() - Date.now();
+    if (remaining <= 0) return this.handleUnauthorized(token);
+
+    if (
+      this.expiryHandledFor !== token &&
+      remaining <= this.sessionExpiry.leadTimeMs
+    ) {
+      this.expiryHandledFor = token;
+      if (await this.refreshSession(user)) return;
+
+      this.events.emit("sessionExpiring", { user, expiresAt: user.expiresAt });
+    }
+
+    this.scheduleSessionExpiry();
+  }
+
+  /**
+   * Replaces the user's token with one obtained from `refreshToken`, if configured.
+   * @private
+   * @returns {Promise<boolean>} True if the token was refreshed
+   */
+  private async refreshSession(user: User): Promise<boolean> {
+    const refreshToken = this.sessionExpiry.refreshToken;
+    if (!refreshToken) return false;
+
+    try {
+      const result = await refreshToken(user);
+      const { token, expiresAt } = typeof result === "string"
+        ? { token: result, expiresAt: undefined }
+        : result;
+
+      // The session may have ended while refreshing
+      if (this.currentUser?.token !== user.token) return true;
+
+      const refreshed = User.from({
+        ...JSON.parse(user.toJSON()),
+        token,
+        expiresAt,
+      });
+      if (!refreshed) return false;
+
+      this.store.setUser(refreshed);
+      this.tokenHandler.setUserToken(refreshed.token);
+      this.scheduleSessionExpiry();
+      this.tabSync?.post({ type: "userUpdated" });
+      this.events.emit("tokenRefreshed", { user: refreshed });
+      return true;
+    } catch (error) {
+      console.error("Failed to refresh the session token:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Applies a session change made in another tab, without sending it back.
+   * The user is reloaded from this tab's storage. Tabs not sharing it, e.g. with
+   * `sessionStorage`, re-fetch their user on updates instead; their logins stay per tab.
+   * @private
+   */
+  private async applyTabMessage(message: TabSyncMessage): Promise<void> {
+    const previous = this.currentUser;
+
+    if (message.type === "logout") {
+      this.clearSavedData();
+      if (!previous) return;
+
+      const event = message.expired ? "sessionExpired" : "logout";
+      this.events.emit(event, { user: previous });
+      return;
+    }
+
+    await this.store.reload?.();
+    const user = this.currentUser;
+    if (!user || user.toJSON() === previous?.toJSON()) {
+      // The update did not reach this tab's storage: fetch it with this tab's own token
+      if (message.type === "userUpdated" && user) await this.fetchUser(false);
+      return;
+    }
+
+    this.scheduleSessionExpiry();
+    if (message.type === "login") {
+      // The identity was confirmed in the other tab, not in this one
+      this.lastStepUpAt = undefined;
+      this.events.emit("login", { user });
+    } else if (previous) {
+      this.emitPermissionChanges(previous, user);
+    }
+  }
+
+  /**
+   * Emits `permissionsChanged` if the updated user's permissions differ from the previous ones.
+   * @private
+   */
+  private emitPermissionChanges(previous: User, user: User): void {
+    const before = new Set(previous.permissions);
+    const after = new Set(user.permissions);
+    const added = user.permissions.filter((perm) => !before.has(perm));
+    const removed = previous.permissions.filter((perm) => !after.has(perm));
+
+    if (added.length || removed.length) {
+      this.events.emit("permissionsChanged", { user, added, removed });
+    }
+  }
+
+  /**
+   * Opens the session of a user who just logged in, in every open tab.
+   * Emits `login`.
+   * @private
+   */
+  private startSession(user: User): void {
+    this.saveSession(user);
+    this.lastStepUpAt = Date.now();
+    this.tabSync?.post({ type: "login" });
+    this.events.emit("login", { user });
+  }
+
+  /**
+   * Asks the backend-for-frontend proxy to clear the session cookies.
+   * The request outlives the page, e.g. when logging out navigates away; failures are logged.
+   * @private
+   */
+  private endProxySession(baseUrl: string): void {
+    const fetchFn = TransportContext.current.fetch ?? fetch;
+    const document = (globalThis as { document?: { cookie: string } }).document;
+    const csrfToken = readCsrfCookie(document?.cookie);
+
+    fetchFn(`${baseUrl}/session/logout`, {
+      method: "POST",
+      headers: csrfToken ? { [CSRF_HEADER]: csrfToken } : {},
+      credentials: "same-origin",
+      keepalive: true,
+    }).catch((error) =>
+      console.error("Failed to clear the proxy session:", error)
+    );
+  }
+
+  /**
+   * Fetches the user of the session cookie from the backend-for-frontend proxy.
+   * @private
+   * @throws {UnauthorizedError} If there is no valid session
+   */
+  private async fetchProxySession(baseUrl: string): Promise<User> {
+    const fetchFn = TransportContext.current.fetch ?? fetch;
+    const response = await fetchFn(`${baseUrl}/session`, {
+      headers: { accept: "application/json" },
+      credentials: "same-origin",
+    });
+    const body = await response.json().catch(() => undefined);
+    if (!response.ok) {
+      throw errorFromResponse({
+        status: response.status,
+        body,
+        headers: response.headers,
+      });
+    }
+
+    const user = User.from(body);
+    if (user) return user;
+    throw APIError.unknown("The proxy returned an invalid session");
+  }
+
+  /**
+   * Replaces the saved session with the given user's.
+   * @private
+   */
+  private saveSession(user: User): void {
+    this.clearSavedData();
+    this.store.setUser(user);
+    this.tokenHandler.setUserToken(user.token);
+    this.scheduleSessionExpiry();
   }
 
   /**
@@ -192,6 +973,8 @@ export class AfloatAuth {
    * @private
    */
   private clearSavedData(): void {
+    this.stopSessionExpiry();
+    this.lastStepUpAt = undefined;
     this.store.refresh();
     this.tokenHandler.clearToken();
   }
@@ -0,0 +1,167 @@
+import { AfloatAuth } from "@features/auth/manager.ts";
+import type { UserCacheOptions } from "@features/auth/storage/user_cache.ts";
+import type { AfloatConfigInput } from "@shared/config.ts";
+import type { Permission } from "@models/permission.ts";
+import { APIError } from "@errors/api_error.ts";
+import { ForbiddenError, UnauthorizedError } from "@errors/http_errors.ts";
+import {
+  readSessionCookie,
+  verifyCsrfToken,
+} from "@features/auth/storage/session_cookie.ts";
+
+/**
+ * Options shared by the server framework adapters.
+ */
+export interface AuthMiddlewareOptions {
+  /** Permissions the user must all have to reach the route. Any authenticated user passes by default */
+  permissions?: Permission[];
+  /** Cookie read when the request has no `Authorization: Bearer` header. Defaults to "afloat_token" */
+  cookieName?: string;
+  /** Cookie holding the CSRF token, as issued with `issueSessionCookies`. Defaults to "afloat_csrf" */
+  csrfCookieName?: string;
+  /**
+   * Whether mutating requests authenticated with the cookie must pass the double-submit
+   * CSRF check. Requests sending an `Authorization: Bearer` header are never checked. Defaults to true
+   */
+  csrf?: boolean;
+  /** Configuration overriding the global one */
+  config?: AfloatConfigInput;
+  /** User cache overriding the one set with `configureUserCache`, or `false` to always fetch the user */
+  cache?: Partial<UserCacheOptions> | false;
+}
+
+/**
+ * A request rejected by an adapter: its status code and JSON body.
+ */
+export interface AuthFailure {
+  /**
+   * 401 without a valid token, 403 without the route's permissions or failing the CSRF check,
+   * 502 if the API failed
+   */
+  status: number;
+  /** JSON body describing the error, with the fields of `APIError` */
+  body: {
+    statusCode: number;
+    error?: string;
+    message: string;
+    requiredPermissions?: Permission[];
+  };
+}
+
+/**
+ * Outcome of authenticating a request: its auth instance, or the response rejecting it.
+ */
+export type AuthResult =
+  | { auth: AfloatAuth; failure?: undefined }
+  | { auth?: undefined; failure: AuthFailure };
+
+/**
+ * Reads the token of a request, from its `Authorization: Bearer` header or else its cookie.
+ *
+ * @param {(name: string) => string | undefined | null} getHeader - Reads a request header
+ * @param {string} [cookieName] - Cookie holding the token. Defaults to "afloat_token"
+ * @returns {string | undefined} The token, or undefined if the request has none
+ */
+export function readRequestToken(
+  getHeader: (name: string) => string | undefined | null,
+  cookieName?: string,
+): string | undefined {
+  return readBearerToken(getHeader) ??
+    readSessionCookie(getHeader("cookie"), { name: cookieName });
+}
+
+/**
+ * Authenticates a request for the framework adapters: reads its token, checks the CSRF token
+ * of mutating requests authenticated with the cookie, initializes the server-side auth
+ * instance (through the user cache) and checks the route's permissions.
+ *
+ * @param {string} method - The request's HTTP method
+ * @param {(name: string) => string | undefined | null} getHeader - Reads a request header
+ * @param {AuthMiddlewareOptions} [options] - The route's permissions and auth options
+ * @returns {Promise<AuthResult>} The request's auth instance, or the response rejecting it
+ */
+export async function authenticateRequest(
+  method: string,
+  getHeader: (name: string) => string | undefined | null,
+  options?: AuthMiddlewareOptions,
+): Promise<AuthResult> {
+  const cookie = {
+    name: options?.cookieName,
+    csrfName: options?.csrfCookieName,
+  };
+  const bearer = readBearerToken(getHeader);
+  const token = bearer ?? readSessionCookie(getHeader("cookie"), cookie);
+  if (!token) return { failure: toFailure(new UnauthorizedError()) };
+
+  // Browsers attach the cookie to requests from other sites, but never a bearer header
+  if (
+    !bearer && options?.csrf !== false &&
+    !verifyCsrfToken(method, getHeader, cookie)
+  ) {
+    return {
+      failure: toFailure(
+        new ForbiddenError({
+          message: "Invalid CSRF token",
+          error: "INVALID CSRF TOKEN",
+        }),
+      ),
+    };
+  }
+
+  let auth: AfloatAuth;
+  try {
+    auth = await AfloatAuth.initializeServer(token, {
+      config: options?.config,
+      cache: options?.cache,
+    });
+  } catch (error) {
+    const cause = error instanceof Error ? error.cause : undefined;
+    if (cause instanceof APIError && cause.statusCode === 401) {
+      return { failure: toFailure(cause) };
+    }
+    return {
+      failure: toFailure(
+        new APIError({
+          message: "Could not verify the session. Please try again later",
+          statusCode: 502,
+          error: "BAD GATEWAY",
+        }),
+      ),
+    };
+  }
+
+  const missing = (options?.permissions ?? []).filter((permission) =>
+    !auth.checkPermission(permission)
+  );
+  if (missing.length > 0) {
+    const failure = toFailure(new ForbiddenError());
+    failure.body.requiredPermissions = missing;
+    return { failure };
+  }
+
+  return { auth };
+}
+
+/**
+ * Reads the token of a request's `Authorization: Bearer` header.
+ */
+function readBearerToken(
+  getHeader: (name: string) => string | undefined | null,
+): string | undefined {
+  const authorization = getHeader("authorization");
+  return authorization?.match(/^Bearer\s+(.+)$/i)?.[1].trim() || undefined;
+}
+
+/**
+ * Describes an API error as the response rejecting a request.
+ */
+function toFailure(error: APIError): AuthFailure {
+  return {
+    status: error.statusCode,
+    body: {
+      statusCode: error.statusCode,
+      error: error.error,
+      message: error.message,
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import type { AfloatAuth } from "@features/auth/manager.ts";
+import { runWithAuth } from "@features/auth/scope.ts";
+import {
+  authenticateRequest,
+  type AuthMiddlewareOptions,
+} from "@features/auth/middleware/common.ts";
+
+/**
+ * The parts of an Express or Connect request used by {@link afloatExpress}.
+ * The auth instance is attached as `afloatAuth`.
+ */
+export interface ExpressRequestLike {
+  method: string;
+  headers: Record<string, string | string[] | undefined>;
+  afloatAuth?: AfloatAuth;
+}
+
+/**
+ * The parts of an Express response used by {@link afloatExpress}.
+ * Plain Connect responses are supported through `statusCode` and `end`.
+ */
+export interface ExpressResponseLike {
+  statusCode: number;
+  setHeader(name: string, value: string): unknown;
+  end(body?: string): unknown;
+}
+
+/**
+ * Creates an Express or Connect middleware authenticating requests with their
+ * `Authorization: Bearer` header or token cookie.
+ *
+ * Authenticated requests get their auth instance as `req.afloatAuth`, and the rest of the
+ * chain runs inside `runWithAuth`, so repositories created by handlers use it.
+ * Requests without a valid token get a 401, and those lacking `permissions` a 403, as do
+ * mutating requests authenticated with the cookie but failing the CSRF check.
+ *
+ * @param {AuthMiddlewareOptions} [options] - The route's permissions and auth options
+ * @returns The middleware
+ *
+ * @example
+ * app.use("/api", afloatExpress());
+ *
+ * app.post(
+ *   "/api/payouts/:id/approve",
+ *   afloatExpress({ permissions: [Permissions.Payout.Approve] }),
+ *   async (req, res) => res.json(await new PayoutRepository().approve(req.params.id)),
+ * );
+ */
+export function afloatExpress(
+  options?: AuthMiddlewareOptions,
+): (
+  req: ExpressRequestLike,
+  res: ExpressResponseLike,
+  next: (error?: unknown) => void,
+) => Promise<void> {
+  return async (req, res, next) => {
+    let result;
+    try {
+      result = await authenticateRequest(req.method, (name) => {
+        const value = req.headers[name];
+        return Array.isArray(value) ? value.join(", ") : value;
+      }, options);
+    } catch (error) {
+      return next(error);
+    }
+
+    if (result.failure) {
+      res.statusCode = result.failure.status;
+      res.setHeader("content-type", "application/json");
+      res.end(JSON.stringify(result.failure.body));
+      return;
+    }
+
+    req.afloatAuth = result.auth;
+    runWithAuth(result.auth, () => next());
+  };
+}
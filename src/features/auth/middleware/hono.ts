@@ -0,0 +1,56 @@
+import type { AfloatAuth } from "@features/auth/manager.ts";
+import { runWithAuth } from "@features/auth/scope.ts";
+import {
+  authenticateRequest,
+  type AuthMiddlewareOptions,
+} from "@features/auth/middleware/common.ts";
+
+/**
+ * The parts of a Hono context used by {@link afloatHono}.
+ * The auth instance is set as the `afloatAuth` variable.
+ */
+export interface HonoContextLike {
+  req: { method: string; header(name: string): string | undefined };
+  set(key: "afloatAuth", value: AfloatAuth): void;
+  json(body: unknown, status: number): Response;
+}
+
+/**
+ * Creates a Hono middleware authenticating requests with their
+ * `Authorization: Bearer` header or token cookie.
+ *
+ * Authenticated requests get their auth instance as the `afloatAuth` variable, and the
+ * following handlers run inside `runWithAuth`, so repositories they create use it.
+ * Requests without a valid token get a 401, and those lacking `permissions` a 403, as do
+ * mutating requests authenticated with the cookie but failing the CSRF check.
+ *
+ * @param {AuthMiddlewareOptions} [options] - The route's permissions and auth options
+ * @returns The middleware
+ *
+ * @example
+ * const app = new Hono<{ Variables: { afloatAuth: AfloatAuth } }>();
+ *
+ * app.use("/api/*", afloatHono());
+ * app.get(
+ *   "/api/balance",
+ *   afloatHono({ permissions: [Permissions.Wallet.ViewBalance] }),
+ *   async (c) => c.json(await new WalletRepo().getBalance({})),
+ * );
+ */
+export function afloatHono(
+  options?: AuthMiddlewareOptions,
+): (c: HonoContextLike, next: () => Promise<void>) => Promise<Response | void> {
+  return async (c, next) => {
+    const result = await authenticateRequest(
+      c.req.method,
+      (name) => c.req.header(name),
+      options,
+    );
+    if (result.failure) {
+      return c.json(result.failure.body, result.failure.status);
+    }
+
+    c.set("afloatAuth", result.auth);
+    await runWithAuth(result.auth, next);
+  };
+}
@@ -0,0 +1,122 @@
+import type { AfloatAuth } from "@features/auth/manager.ts";
+import type { Permission } from "@models/permission.ts";
+import { runWithAuth } from "@features/auth/scope.ts";
+import {
+  authenticateRequest,
+  type AuthFailure,
+  type AuthMiddlewareOptions,
+} from "@features/auth/middleware/common.ts";
+
+/**
+ * Wraps a Next.js route handler so it only runs for authenticated requests.
+ *
+ * The handler receives the request's auth instance as `context.auth`, and runs inside
+ * `runWithAuth`, so repositories it creates use it.
+ * Requests without a valid token get a 401, and those lacking `permissions` a 403, as do
+ * mutating requests authenticated with the cookie but failing the CSRF check.
+ *
+ * @param handler - The route handler, receiving the route context with `auth`
+ * @param {AuthMiddlewareOptions} [options] - The route's permissions and auth options
+ * @returns The route handler to export
+ *
+ * @example
+ * // app/api/payouts/[id]/approve/route.ts
+ * export const POST = withAfloatAuth(
+ *   async (_request, { params }) =>
+ *     Response.json(await new PayoutRepository().approve((await params).id)),
+ *   { permissions: [Permissions.Payout.Approve] },
+ * );
+ */
+export function withAfloatAuth<C extends object>(
+  handler: (
+    request: Request,
+    context: C & { auth: AfloatAuth },
+  ) => Response | Promise<Response>,
+  options?: AuthMiddlewareOptions,
+): (request: Request, context: C) => Promise<Response> {
+  return async (request, context) => {
+    const result = await authenticateRequest(
+      request.method,
+      (name) => request.headers.get(name),
+      options,
+    );
+    if (result.failure) return toResponse(result.failure);
+
+    const auth = result.auth;
+    return await runWithAuth(
+      auth,
+      () => handler(request, { ...context, auth }),
+    );
+  };
+}
+
+/**
+ * Options of {@link afloatNextMiddleware}.
+ */
+export interface NextMiddlewareOptions
+  extends Omit<AuthMiddlewareOptions, "permissions"> {
+  /**
+   * Permissions required by path prefix, e.g. `{ "/payouts": [Permissions.Payout.View] }`.
+   * The longest matching prefix applies. Paths matching none only require a valid token.
+   */
+  routes?: Record<string, Permission[]>;
+}
+
+/**
+ * Creates a Next.js middleware rejecting unauthenticated requests, and requests lacking
+ * the permissions of their route, before they reach pages or route handlers.
+ * Authenticated requests continue: the middleware resolves to undefined.
+ *
+ * Use it with a `matcher` limited to the protected paths.
+ *
+ * @param {NextMiddlewareOptions} [options] - The permissions by route and auth options
+ * @returns The middleware
+ *
+ * @example
+ * // middleware.ts
+ * export const middleware = afloatNextMiddleware({
+ *   routes: { "/api/payouts": [Permissions.Payout.View] },
+ * });
+ * export const config = { matcher: "/api/:path*" };
+ */
+export function afloatNextMiddleware(
+  options?: NextMiddlewareOptions,
+): (request: Request) => Promise<Response | undefined> {
+  return async (request) => {
+    const { routes, ...authOptions } = options ?? {};
+    const result = await authenticateRequest(
+      request.method,
+      (name) => request.headers.get(name),
+      {
+        ...authOptions,
+        permissions: routePermissions(new URL(request.url).pathname, routes),
+      },
+    );
+    return result.failure ? toResponse(result.failure) : undefined;
+  };
+}
+
+/**
+ * Finds the permissions of the longest route prefix matching a path.
+ */
+function routePermissions(
+  pathname: string,
+  routes: Record<string, Permission[]> | undefined,
+): Permission[] {
+  const prefix = Object.keys(routes ?? {})
+    .filter((route) =>
+      pathname === route || pathname.startsWith(route.replace(/\/?$/, "/"))
+    )
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix && routes ? routes[prefix] : [];
+}
+
+/**
+ * Converts a rejected request to its JSON response.
+ */
+function toResponse(failure: AuthFailure): Response {
+  return new Response(JSON.stringify(failure.body), {
+    status: failure.status,
+    headers: { "content-type": "application/json" },
+  });
+}
@@ -0,0 +1,161 @@
+import { type Permission, Permissions } from "@models/permission.ts";
+
+/**
+ * Repository operations guarded by permissions, named `{resource}.{action}`.
+ */
+export type RepositoryOperation =
+  | "payout.list"
+  | "payout.create"
+  | "payout.approve"
+  | "payout.reject"
+  | "contact.list"
+  | "contact.create"
+  | "contact.update"
+  | "contact.delete"
+  | "wallet.list"
+  | "wallet.getBalance"
+  | "wallet.getStatement"
+  | "user.list"
+  | "user.get"
+  | "user.create"
+  | "user.update"
+  | "user.archive"
+  | "user.unarchive"
+  | "user.resetPassword"
+  | "role.list"
+  | "role.get"
+  | "role.create"
+  | "role.update"
+  | "role.delete";
+
+/**
+ * The permissions an operation requires: every permission of `allOf`,
+ * and at least one of `anyOf` when given.
+ */
+export interface PermissionRequirement {
+  /** Permissions the user must all have */
+  allOf?: Permission[];
+  /** Permissions the user must have at least one of */
+  anyOf?: Permission[];
+  /** Message of the `PermissionError` thrown when the requirement is not met */
+  message: string;
+}
+
+/**
+ * The permissions required by each repository operation.
+ */
+export const OperationPermissions: Record<
+  RepositoryOperation,
+  PermissionRequirement
+> = {
+  "payout.list": {
+    allOf: [Permissions.Payout.List],
+    message: "You are not authorized to view payouts.",
+  },
+  "payout.create": {
+    allOf: [Permissions.Payout.Create],
+    message: "You are not authorized to create payouts.",
+  },
+  "payout.approve": {
+    allOf: [Permissions.Payout.Approve],
+    message: "You are not authorized to approve or reject payouts.",
+  },
+  "payout.reject": {
+    allOf: [Permissions.Payout.Approve],
+    message: "You are not authorized to approve or reject payouts.",
+  },
+  "contact.list": {
+    allOf: [Permissions.Contact.List],
+    message: "You are not authorized to view contacts.",
+  },
+  "contact.create": {
+    allOf: [Permissions.Contact.Create],
+    message: "You are not authorized to add contacts.",
+  },
+  "contact.update": {
+    allOf: [Permissions.Contact.Update],
+    message: "You are not authorized to update contacts.",
+  },
+  "contact.delete": {
+    allOf: [Permissions.Contact.Delete],
+    message: "You are not authorized to delete contacts.",
+  },
+  "wallet.list": {
+    anyOf: [Permissions.Wallet.ViewBalance, Permissions.Wallet.ViewStatement],
+    message: "You are not authorized to view wallets.",
+  },
+  "wallet.getBalance": {
+    allOf: [Permissions.Wallet.ViewBalance],
+    message: "You are not authorized to view the account balance.",
+  },
+  "wallet.getStatement": {
+    allOf: [Permissions.Wallet.ViewStatement],
+    message: "You are not authorized to view the statement.",
+  },
+  "user.list": {
+    allOf: [Permissions.UserManagement.ViewUsers],
+    message: "You are not authorized to view user accounts.",
+  },
+  "user.get": {
+    allOf: [Permissions.UserManagement.ViewUser],
+    message: "You are not authorized to view user account details.",
+  },
+  "user.create": {
+    allOf: [Permissions.UserManagement.CreateUser],
+    message: "You are not authorized to create user accounts.",
+  },
+  "user.update": {
+    allOf: [Permissions.UserManagement.UpdateUser],
+    message: "You are not authorized to update user accounts.",
+  },
+  "user.archive": {
+    allOf: [Permissions.UserManagement.ArchiveUser],
+    message: "You are not authorized to archive users.",
+  },
+  "user.unarchive": {
+    allOf: [Permissions.UserManagement.UnArchiveUser],
+    message: "You are not authorized to un-archive users.",
+  },
+  "user.resetPassword": {
+    allOf: [Permissions.UserManagement.ResetPassword],
+    message: "You are not authorized to reset user passwords.",
+  },
+  "role.list": {
+    allOf: [Permissions.Role.ViewRoles],
+    message: "You are not authorized to view system roles.",
+  },
+  "role.get": {
+    allOf: [Permissions.Role.ViewRole],
+    message: "You are not authorized to view role details.",
+  },
+  "role.create": {
+    allOf: [Permissions.Role.Create],
+    message: "You are not authorized to create roles.",
+  },
+  "role.update": {
+    allOf: [Permissions.Role.Update],
+    message: "You are not authorized to update roles.",
+  },
+  "role.delete": {
+    allOf: [Permissions.Role.Delete],
+    message: "You are not authorized to delete roles.",
+  },
+};
+
+/**
+ * Finds the permissions keeping a user from an operation.
+ *
+ * @param {RepositoryOperation} operation - The operation to check
+ * @param {(permission: Permission) => boolean} has - Whether the user has a permission
+ * @returns {Permission[]} The missing `allOf` permissions, or the whole `anyOf` list when
+ * the user has none of it. Empty when the user may call the operation
+ */
+export function missingPermissions(
+  operation: RepositoryOperation,
+  has: (permission: Permission) => boolean,
+): Permission[] {
+  const { allOf = [], anyOf = [] } = OperationPermissions[operation];
+  const missing = allOf.filter((permission) => !has(permission));
+  if (anyOf.length > 0 && !anyOf.some(has)) missing.push(...anyOf);
+  return missing;
+}
@@ -1,19 +1,77 @@
 import { User } from "@models/index.ts";
-import { BaseRepository } from "@shared/base_repository.ts";
+import {
+  BaseRepository,
+  type BaseRepositoryArgs,
+} from "@shared/base_repository.ts";
 import { authContract } from "@features/auth/contract.ts";
 import { APIError } from "@errors/api_error.ts";
+import { errorFromResponse, ValidationError } from "@errors/http_errors.ts";
 import { LoginRepository } from "@features/auth/identity/repository.ts";
+import { UserManagementSchemas } from "@features/admin/schemas.ts";
+import { otpErrorFromResponse, OtpRequiredError } from "@errors/otp_errors.ts";
+import type { ClientInferResponseBody } from "@ts-rest/core";
+import type { StepUpCredentials } from "@features/auth/step_up.ts";
+
+type SessionResponse = ClientInferResponseBody<typeof authContract.logIn, 201>;
+
+type OtpChallengeResponse = ClientInferResponseBody<
+  typeof authContract.logIn,
+  202
+>;
+
+/**
+ * A second factor required to complete a login, carried by `OtpRequiredError`.
+ */
+export interface OtpChallenge {
+  /** Identifier of the challenge, passed to `verifyOtp` and `resendOtp` */
+  id: string;
+  /** How the code is obtained: an authenticator app (TOTP) or an SMS */
+  method: "totp" | "sms";
+  /** Masked phone number the SMS was sent to, e.g. "+255 *** *** 789" */
+  destination?: string;
+  /** When the challenge expires, if known. The user must log in again afterwards */
+  expiresAt?: Date;
+  /** When another SMS can be requested with `resendOtp`, if known */
+  resendAvailableAt?: Date;
+  /** Number of codes the user can try, if known */
+  attemptsRemaining?: number;
+}
+
+/**
+ * A valid password reset token, as returned by `verifyPasswordResetToken`.
+ */
+export interface PasswordResetTokenInfo {
+  /** Email of the account the token resets the password of */
+  identity: string;
+  /** When the token expires, if known */
+  expiresAt?: Date;
+}
+
+/** Error messages of the requests made for an expired login challenge */
+const EXPIRED_CHALLENGE_MESSAGES = {
+  404: "The verification code has expired. Please log in again",
+};
+
+/** Error messages of the requests made with an invalid or expired reset token */
+const INVALID_RESET_TOKEN_MESSAGES = {
+  400: "The reset link is invalid or has expired",
+  404: "The reset link is invalid or has expired",
+};
 
 /**
  * Class representing the AuthRepository.
  * Provides methods to handle authentication-related operations, such as login and password updates.
  */
 export class AuthRepository extends BaseRepository<typeof authContract> {
+  /** Changing the password is the one operation left to a user flagged for a reset */
+  protected override allowedDuringPasswordChange = true;
+
   /**
    * Initializes an instance of AuthRepository.
+   * @param {BaseRepositoryArgs} [args] - Optional constructor arguments
    */
-  constructor() {
-    super("auth", authContract);
+  constructor(args?: BaseRepositoryArgs) {
+    super("auth", authContract, args);
   }
 
   /**
@@ -21,28 +79,62 @@ export class AuthRepository extends BaseRepository<typeof authContract> {
    * @param email - The email of the user attempting to log in.
    * @param password - The password of the user.
    * @returns A promise that resolves to a User object on successful login.
-   * @throws {APIError} If the email or password is invalid, or if another error occurs during the login process.
+   * @throws {OtpRequiredError} If the account requires a second factor, to verify with `verifyOtp`.
+   * @throws {ValidationError} If the email or password is invalid.
+   * @throws {APIError} If another error occurs during the login process.
    */
   async logIn(email: string, password: string): Promise<User> {
     const body = { type: "password", identity: email, password };
     const result = await this.client.logIn({ body });
-    if (result.status === 400) {
-      throw new APIError({
-        message: "Invalid email or password",
-        statusCode: 400,
+    if (result.status === 202) {
+      throw new OtpRequiredError({ challenge: toOtpChallenge(result.body) });
+    }
+    if (result.status !== 201) {
+      throw errorFromResponse(result, {
+        400: "Invalid email or password",
+        401: "Invalid email or password",
       });
     }
 
-    if (result.status === 201) {
-      const repo = new LoginRepository();
-      const loginCredentials = await repo.getIdentity(result.body.token);
-      const user = User.from({ ...result.body, ...loginCredentials });
-      if (user) return user;
+    return await this.toUser(result.body);
+  }
+
+  /**
+   * Completes a login challenged for a second factor with the code the user entered.
+   * @param challengeId - The identifier of the challenge thrown by `logIn`.
+   * @param code - The TOTP or SMS code.
+   * @returns A promise that resolves to a User object on successful verification.
+   * @throws {InvalidOtpError} If the code is wrong, with the attempts remaining.
+   * @throws {OtpAttemptsExceededError} If too many wrong codes were entered.
+   * @throws {NotFoundError} If the challenge has expired.
+   * @throws {APIError} If another error occurs during the verification.
+   */
+  async verifyOtp(challengeId: string, code: string): Promise<User> {
+    const result = await this.client.verifyOtp({
+      body: { challengeId, code },
+    });
+    if (result.status !== 201) {
+      throw otpErrorFromResponse(result, EXPIRED_CHALLENGE_MESSAGES);
     }
 
-    throw new APIError({
-      message: "An error occurred while trying to log in",
-      statusCode: 502,
+    return await this.toUser(result.body);
+  }
+
+  /**
+   * Sends a new SMS code for a login challenge.
+   * @param challengeId - The identifier of the challenge thrown by `logIn`.
+   * @returns A promise that resolves to the updated challenge.
+   * @throws {RateLimitError} If a code was sent too recently, with the time to wait.
+   * @throws {NotFoundError} If the challenge has expired.
+   * @throws {APIError} If another error occurs during the request.
+   */
+  async resendOtp(challengeId: string): Promise<OtpChallenge> {
+    const result = await this.client.resendOtp({ body: { challengeId } });
+    if (result.status === 200) return toOtpChallenge(result.body);
+
+    throw errorFromResponse(result, {
+      ...EXPIRED_CHALLENGE_MESSAGES,
+      429: "Please wait before requesting another code",
     });
   }
 
@@ -51,7 +143,8 @@ export class AuthRepository extends BaseRepository<typeof authContract> {
    * @param currentPassword - The user's current password.
    * @param newPassword - The new password the user wants to set.
    * @returns A promise that resolves to true if the password update is successful.
-   * @throws {APIError} If the current password is invalid or another error occurs during the update process.
+   * @throws {ValidationError} If the current password is invalid.
+   * @throws {APIError} If another error occurs during the update process.
    */
   async updatePassword(
     currentPassword: string,
@@ -61,16 +154,137 @@ export class AuthRepository extends BaseRepository<typeof authContract> {
       body: { currentPassword, newPassword },
     });
     if (result.status === 200) return true;
-    if (result.status === 400) {
-      throw new APIError({
-        message: "Invalid current password",
-        statusCode: 400,
+
+    throw errorFromResponse(result, { 400: "Invalid current password" });
+  }
+
+  /**
+   * Confirms the logged in user's identity before a sensitive operation.
+   * @param credentials - The user's password, or a code from their authenticator app.
+   * @returns A promise that resolves once the identity is confirmed.
+   * @throws {ValidationError} If the password is wrong.
+   * @throws {InvalidOtpError} If the code is wrong.
+   * @throws {OtpAttemptsExceededError} If too many wrong codes were entered.
+   * @throws {APIError} If another error occurs during the confirmation.
+   */
+  async confirmStepUp(credentials: StepUpCredentials): Promise<void> {
+    const result = await this.client.confirmStepUp({ body: credentials });
+    if (result.status === 200) return;
+
+    if ("code" in credentials) throw otpErrorFromResponse(result);
+    throw errorFromResponse(result, { 400: "Invalid password" });
+  }
+
+  /**
+   * Requests a password reset link, emailed to the user.
+   * Resolves whether or not an account exists for the email, so accounts cannot be enumerated.
+   * @param email - The email of the user who forgot their password.
+   * @returns A promise that resolves once the request is accepted.
+   * @throws {RateLimitError} If too many links were requested.
+   * @throws {APIError} If another error occurs during the request.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const result = await this.client.requestPasswordReset({
+      body: { identity: email },
+    });
+    if (result.status === 200) return;
+
+    throw errorFromResponse(result, { 400: "Invalid email address" });
+  }
+
+  /**
+   * Checks a password reset token, e.g. before showing the new password form of a reset link.
+   * @param token - The token from the reset link.
+   * @returns A promise that resolves to the account the token belongs to.
+   * @throws {ValidationError | NotFoundError} If the token is invalid or has expired.
+   * @throws {APIError} If another error occurs during the check.
+   */
+  async verifyPasswordResetToken(
+    token: string,
+  ): Promise<PasswordResetTokenInfo> {
+    const result = await this.client.verifyPasswordResetToken({
+      body: { token },
+    });
+    if (result.status === 200) {
+      const { identity, expiresAt } = result.body;
+      return {
+        identity,
+        expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+      };
+    }
+
+    throw errorFromResponse(result, INVALID_RESET_TOKEN_MESSAGES);
+  }
+
+  /**
+   * Sets a new password with a password reset token.
+   * The password is validated against the strong password rules before being sent.
+   * @param token - The token from the reset link.
+   * @param newPassword - The new password to set.
+   * @returns A promise that resolves to true if the password was reset.
+   * @throws {ValidationError} If the password is too weak, or the token is invalid or has expired.
+   * @throws {APIError} If another error occurs during the reset.
+   */
+  async completePasswordReset(
+    token: string,
+    newPassword: string,
+  ): Promise<boolean> {
+    const parsed = UserManagementSchemas.password.safeParse(newPassword);
+    if (!parsed.success) {
+      const message = parsed.error.issues[0]?.message;
+      throw new ValidationError({
+        message,
+        details: { newPassword: message },
       });
     }
 
+    const result = await this.client.completePasswordReset({
+      body: { token, newPassword },
+    });
+    if (result.status === 200) return true;
+
+    throw errorFromResponse(result, INVALID_RESET_TOKEN_MESSAGES);
+  }
+
+  /**
+   * Constructs the user of a newly opened session, fetching their identity.
+   */
+  private async toUser(session: SessionResponse): Promise<User> {
+    const repo = new LoginRepository({
+      transport: this.transport,
+      config: this.configOverrides,
+    });
+    const loginCredentials = await repo.getIdentity(session.token);
+    const { expiresIn } = session;
+    const user = User.from({
+      ...session,
+      ...loginCredentials,
+      expiresAt: expiresIn !== undefined
+        ? new Date(Date.now() + expiresIn * 1000)
+        : undefined,
+    });
+    if (user) return user;
+
     throw new APIError({
-      message: "An error occurred while trying to update password",
+      message: "An error occurred while trying to log in",
       statusCode: 502,
     });
   }
 }
+
+/**
+ * Converts a challenge response, whose delays are in seconds, to an `OtpChallenge`.
+ */
+function toOtpChallenge(body: OtpChallengeResponse): OtpChallenge {
+  const inSeconds = (seconds?: number) =>
+    seconds !== undefined ? new Date(Date.now() + seconds * 1000) : undefined;
+
+  return {
+    id: body.challengeId,
+    method: body.method,
+    destination: body.destination,
+    expiresAt: inSeconds(body.expiresIn),
+    resendAvailableAt: inSeconds(body.resendIn),
+    attemptsRemaining: body.attemptsRemaining,
+  };
+}
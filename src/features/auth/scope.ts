@@ -0,0 +1,123 @@
+import type { AfloatAuth } from "@features/auth/manager.ts";
+
+/**
+ * The subset of Node's `AsyncLocalStorage` used to scope auth instances to a request.
+ * Any implementation with the same semantics can be provided with `setAuthScopeStorage`.
+ */
+export interface AuthScopeStorage {
+  /** Returns the auth instance of the current scope, if any */
+  getStore(): AfloatAuth | undefined;
+  /** Runs `fn` in a scope where `getStore` returns `auth` */
+  run<R>(auth: AfloatAuth, fn: () => R): R;
+}
+
+/** Constructor of `AsyncLocalStorage`, as found on Node, Deno, Bun and edge runtimes */
+type AsyncLocalStorageConstructor = new () => AuthScopeStorage;
+
+/** Storage scoping auth instances, resolved on first use */
+let storage: AuthScopeStorage | undefined;
+
+/**
+ * Replaces the storage used to scope auth instances to a request.
+ * Only needed where `AsyncLocalStorage` is not detected automatically,
+ * e.g. on runtimes that only expose it through an import.
+ *
+ * @param {AuthScopeStorage} scopeStorage - The storage to use
+ *
+ * @example
+ * import { AsyncLocalStorage } from "node:async_hooks";
+ *
+ * setAuthScopeStorage(new AsyncLocalStorage());
+ */
+export function setAuthScopeStorage(scopeStorage: AuthScopeStorage): void {
+  storage = scopeStorage;
+}
+
+/**
+ * Runs `fn` with `auth` as the current auth instance: every repository created
+ * or called inside `fn` resolves `auth` rather than the global `AuthContext.current`,
+ * so concurrent server requests never share a token.
+ *
+ * Where `AsyncLocalStorage` is unavailable, the scope only lasts for the synchronous
+ * part of `fn`: create repositories before the first `await`, or pass `auth` explicitly.
+ *
+ * @param {AfloatAuth} auth - The auth instance of the current request
+ * @param {() => R} fn - The function to run
+ * @returns {R} The value returned by `fn`
+ *
+ * @example
+ * app.get("/balance", async (req, res) => {
+ *   const auth = await AfloatAuth.initializeServer(req.headers.token);
+ *   const balance = await runWithAuth(auth, () => new WalletRepo().getBalance({}));
+ *   res.json({ balance });
+ * });
+ */
+export function runWithAuth<R>(auth: AfloatAuth, fn: () => R): R {
+  return resolveStorage().run(auth, fn);
+}
+
+/**
+ * Gets the auth instance of the current `runWithAuth` scope.
+ *
+ * @returns {AfloatAuth | undefined} The scoped auth instance, or undefined outside a scope
+ */
+export function getScopedAuth(): AfloatAuth | undefined {
+  return storage?.getStore();
+}
+
+/**
+ * Resolves the scope storage: `AsyncLocalStorage` when the runtime provides it,
+ * a synchronous stack otherwise.
+ */
+function resolveStorage(): AuthScopeStorage {
+  if (storage) return storage;
+
+  const AsyncLocalStorage = findAsyncLocalStorage();
+  storage = AsyncLocalStorage
+    ? new AsyncLocalStorage()
+    : new SyncScopeStorage();
+  return storage;
+}
+
+/**
+ * Looks for `AsyncLocalStorage` on the global object, then in `node:async_hooks`.
+ */
+function findAsyncLocalStorage(): AsyncLocalStorageConstructor | undefined {
+  const global = globalThis as {
+    AsyncLocalStorage?: AsyncLocalStorageConstructor;
+    process?: {
+      getBuiltinModule?: (
+        id: string,
+      ) => { AsyncLocalStorage?: AsyncLocalStorageConstructor } | undefined;
+    };
+  };
+
+  if (global.AsyncLocalStorage) return global.AsyncLocalStorage;
+
+  try {
+    return global.process?.getBuiltinModule?.("node:async_hooks")
+      ?.AsyncLocalStorage;
+  } catch (_) {
+    return undefined;
+  }
+}
+
+/**
+ * Fallback storage keeping the scope for the synchronous part of `run` only.
+ */
+class SyncScopeStorage implements AuthScopeStorage {
+  private stack: AfloatAuth[] = [];
+
+  getStore(): AfloatAuth | undefined {
+    return this.stack[this.stack.length - 1];
+  }
+
+  run<R>(auth: AfloatAuth, fn: () => R): R {
+    this.stack.push(auth);
+    try {
+      return fn();
+    } finally {
+      this.stack.pop();
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import type { User } from "@models/user/index.ts";
+
+/**
+ * A new token obtained for the current user, with its expiry when not carried by the token.
+ */
+export type RefreshedToken = string | { token: string; expiresAt?: Date };
+
+/**
+ * How `AfloatAuth` anticipates the expiry of the client-side session's token.
+ */
+export interface SessionExpiryOptions {
+  /**
+   * Time before the token expires at which it is refreshed,
+   * or `sessionExpiring` is emitted when it cannot be.
+   */
+  leadTimeMs: number;
+
+  /**
+   * Optional function obtaining a new token for the user before the current one expires.
+   * When it is absent or fails, `sessionExpiring` is emitted instead.
+   */
+  refreshToken?: (user: User) => Promise<RefreshedToken>;
+}
+
+/** Default session expiry options: warn two minutes before the token expires */
+export const DEFAULT_SESSION_EXPIRY_OPTIONS: SessionExpiryOptions = {
+  leadTimeMs: 2 * 60_000,
+};
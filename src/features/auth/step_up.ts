@@ -0,0 +1,32 @@
+import type { RepositoryOperation } from "@features/auth/operations.ts";
+
+/**
+ * Sensitive operations that can require a recent re-authentication (step-up).
+ */
+export type StepUpOperation = Extract<
+  RepositoryOperation,
+  "payout.approve" | "user.create"
+>;
+
+/**
+ * Which sensitive operations require a recent re-authentication, and how recent.
+ */
+export interface StepUpOptions {
+  /**
+   * How recently the user must have entered their password or a one-time code
+   * before a sensitive operation, in milliseconds.
+   */
+  maxAgeMs: number;
+
+  /**
+   * Optional per-operation overrides of `maxAgeMs`.
+   * `false` lets the operation through without re-authentication.
+   */
+  operations?: Partial<Record<StepUpOperation, number | false>>;
+}
+
+/**
+ * What the user enters to confirm their identity:
+ * their password, or a code from their authenticator app.
+ */
+export type StepUpCredentials = { password: string } | { code: string };
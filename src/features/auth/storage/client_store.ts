@@ -1,7 +1,14 @@
 import { User } from "@models/user/index.ts";
-import { create, type StoreApi, type UseBoundStore, useStore } from "zustand";
+import {
+  create,
+  type Mutate,
+  type StoreApi,
+  type UseBoundStore,
+  useStore,
+} from "zustand";
 import { createJSONStorage, persist } from "zustand/middleware";
 import type { AuthStore } from "@features/auth/storage/types.ts";
+import type { SessionStorageAdapter } from "@features/auth/storage/session_storage.ts";
 
 /** Key used for storing auth data in session storage */
 const AUTH_STORE_SESSION_STORAGE_KEY = "auth-store";
@@ -16,55 +23,79 @@ interface Actions {
   refresh: () => void;
 }
 
+/** Type of the Zustand store holding the client-side session */
+type ClientStore = UseBoundStore<
+  Mutate<StoreApi<State & Actions>, [["zustand/persist", State]]>
+>;
+
 /**
- * Creates and exports the Zustand store directly for reactive hooks
+ * The Zustand store of the client-side session, used by the reactive hooks.
+ * Created by {@link createClientStore}.
  * @internal This should only be used by AfloatAuth
  */
-export const clientStore: UseBoundStore<StoreApi<State & Actions>> = create<
-  State & Actions,
-  // deno-lint-ignore no-explicit-any
-  any
->(
-  persist(
-    (set, get) => ({
-      user: undefined,
+let clientStore: ClientStore | undefined;
 
-      getUser: () => {
-        try {
-          const jsonUser = get().user;
-          if (jsonUser) return User.fromJSON(jsonUser);
-        } catch (_) {
-          console.log(_);
-        }
+/**
+ * Creates the Zustand store persisting the session in the given storage.
+ */
+const createZustandStore = (storage: SessionStorageAdapter): ClientStore =>
+  create<
+    State & Actions,
+    [["zustand/persist", State]]
+  >(
+    persist(
+      (set, get) => ({
+        user: undefined,
 
-        return undefined;
+        getUser: () => {
+          try {
+            const jsonUser = get().user;
+            if (jsonUser) return User.fromJSON(jsonUser);
+          } catch (_) {
+            console.log(_);
+          }
+
+          return undefined;
+        },
+        setUser: (user) => set({ user: user.toJSON() }),
+        refresh: () => set({ user: undefined }),
+      }),
+      {
+        name: AUTH_STORE_SESSION_STORAGE_KEY,
+        storage: createJSONStorage(() => storage),
       },
-      setUser: (user) => set({ user: user.toJSON() }),
-      refresh: () => set({ user: undefined }),
-    }),
-    {
-      name: AUTH_STORE_SESSION_STORAGE_KEY,
-      storage: createJSONStorage(() => sessionStorage),
-    },
-  ),
-);
+    ),
+  );
 
 /**
  * Creates a client-side authentication store using Zustand.
+ * @param {SessionStorageAdapter} storage - Where the session is persisted
  * @returns {AuthStore} An implementation of AuthStore for client-side use
  */
-export const createClientStore = (): AuthStore => {
+export const createClientStore = (
+  storage: SessionStorageAdapter,
+): AuthStore => {
+  const store = createZustandStore(storage);
+  clientStore = store;
+
   return {
-    getUser: () => clientStore.getState().getUser(),
-    setUser: (user) => clientStore.getState().setUser(user),
-    refresh: () => clientStore.getState().refresh(),
+    getUser: () => store.getState().getUser(),
+    setUser: (user) => store.getState().setUser(user),
+    refresh: () => store.getState().refresh(),
+    reload: () => store.persist.rehydrate(),
   };
 };
 
 /**
  * React hook to access the current user with reactive updates.
+ * @throws {Error} If no client-side store was created, e.g. in a server environment
  * @returns {User | undefined} The current user or undefined if not authenticated
  */
 export const useClientUser = (): User | undefined => {
+  if (!clientStore) {
+    throw new Error(
+      "useClientUser requires the client-side AfloatAuth instance",
+    );
+  }
   return useStore(clientStore).getUser();
 };
@@ -1,45 +1,46 @@
 import type { TokenHandler } from "@features/auth/storage/types.ts";
+import type { SessionStorageAdapter } from "@features/auth/storage/session_storage.ts";
+
+/** Key used for storing the token */
+const AUTH_TOKEN_STORAGE_KEY = "auth_token";
 
 /**
  * Client-side implementation of TokenHandler.
- * Manages tokens using sessionStorage.
+ * Manages tokens using the configured session storage (sessionStorage by default).
  * @implements {TokenHandler}
  */
 export class ClientTokenHandler implements TokenHandler {
-  /** Singleton instance */
-  private static _instance: ClientTokenHandler;
-
-  /** Private constructor to enforce singleton pattern */
-  private constructor() {}
+  /** Where the token is persisted */
+  private storage: SessionStorageAdapter;
 
   /**
-   * Gets the singleton instance of ClientTokenHandler.
-   * @returns {ClientTokenHandler} The singleton instance
+   * Creates a new instance of ClientTokenHandler.
+   * @param {SessionStorageAdapter} storage - Where the token is persisted
    */
-  static get instance(): ClientTokenHandler {
-    return this._instance || (this._instance = new this());
+  constructor(storage: SessionStorageAdapter) {
+    this.storage = storage;
   }
 
   /**
-   * Retrieves the token from sessionStorage.
+   * Retrieves the token from the storage.
    * @returns {string | undefined} The stored token or undefined if not present
    */
   getUserToken(): string | undefined {
-    return sessionStorage.getItem("auth_token") || undefined;
+    return this.storage.getItem(AUTH_TOKEN_STORAGE_KEY) || undefined;
   }
 
   /**
-   * Stores the token in sessionStorage.
+   * Stores the token in the storage.
    * @param {string} token - The token to store
    */
   setUserToken(token: string): void {
-    sessionStorage.setItem("auth_token", token);
+    this.storage.setItem(AUTH_TOKEN_STORAGE_KEY, token);
   }
 
   /**
-   * Removes the token from sessionStorage.
+   * Removes the token from the storage.
    */
   clearToken(): void {
-    sessionStorage.removeItem("auth_token");
+    this.storage.removeItem(AUTH_TOKEN_STORAGE_KEY);
   }
 }
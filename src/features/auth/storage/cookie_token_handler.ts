@@ -0,0 +1,65 @@
+import type { TokenHandler } from "@features/auth/storage/types.ts";
+import {
+  clearSessionCookies,
+  readSessionCookie,
+  rotateSessionCookies,
+  type SessionCookieOptions,
+} from "@features/auth/storage/session_cookie.ts";
+
+/**
+ * Server-side implementation of TokenHandler backed by the httpOnly session cookie.
+ * Reads the token from the request's `Cookie` header; token changes (refresh, logout)
+ * are collected as `Set-Cookie` values to append to the response.
+ * @implements {TokenHandler}
+ */
+export class CookieTokenHandler implements TokenHandler {
+  private token: string | undefined;
+  private options: SessionCookieOptions | undefined;
+  private pendingCookies: string[] = [];
+
+  /**
+   * Creates a new instance of CookieTokenHandler.
+   * @param {string | null | undefined} cookieHeader - The request's `Cookie` header
+   * @param {SessionCookieOptions} [options] - Optional cookie names and attributes
+   */
+  constructor(
+    cookieHeader: string | null | undefined,
+    options?: SessionCookieOptions,
+  ) {
+    this.options = options;
+    this.token = readSessionCookie(cookieHeader, options);
+  }
+
+  /**
+   * Returns the token of the session cookie.
+   * @returns {string | undefined} The current token or undefined if not set
+   */
+  getUserToken(): string | undefined {
+    return this.token;
+  }
+
+  /**
+   * Replaces the token, rotating the session and CSRF cookies.
+   * @param {string} token - The token to store
+   */
+  setUserToken(token: string): void {
+    this.token = token;
+    this.pendingCookies = rotateSessionCookies(token, this.options).setCookie;
+  }
+
+  /**
+   * Clears the token, expiring the session and CSRF cookies.
+   */
+  clearToken(): void {
+    this.token = undefined;
+    this.pendingCookies = clearSessionCookies(this.options);
+  }
+
+  /**
+   * Gets the `Set-Cookie` values reflecting the token changes made during the request.
+   * @returns {string[]} The values to append to the response, empty if the token did not change
+   */
+  setCookieHeaders(): string[] {
+    return [...this.pendingCookies];
+  }
+}
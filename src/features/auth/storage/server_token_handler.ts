@@ -4,6 +4,8 @@ import { profileContract } from "@features/auth/profile/contract.ts";
 import { identityContract } from "@features/auth/identity/contract.ts";
 import { TokenRequiredRepository } from "../../../shared/token_required_repository.ts";
 import { accessContract } from "@features/auth/access/contract.ts";
+import type { AfloatConfigInput } from "@shared/config.ts";
+import { APIError } from "@errors/api_error.ts";
 
 /**
  * Server-side implementation of TokenHandler.
@@ -20,25 +22,32 @@ export class ServerTokenHandler implements TokenHandler {
   /**
    * Creates a new instance of ServerTokenHandler.
    * @param {string} [token] - Optional initial token value
+   * @param {AfloatConfigInput} [config] - Configuration overriding the global one
    */
-  constructor(token: string) {
+  constructor(token: string, config?: AfloatConfigInput) {
     this.token = token;
     this.accessRepo = new TokenRequiredRepository(
       "auth",
       accessContract,
       this.token,
+      undefined,
+      { config },
     );
 
     this.profileRepo = new TokenRequiredRepository(
       "profile",
       profileContract,
       this.token,
+      undefined,
+      { config },
     );
 
     this.identityRepo = new TokenRequiredRepository(
       "login",
       identityContract,
       this.token,
+      undefined,
+      { config },
     );
   }
 
@@ -69,8 +78,11 @@ export class ServerTokenHandler implements TokenHandler {
   }
 
   /**
-   * Fetches and constructs the full user data
+   * Fetches and constructs the full user data.
+   * The `resetPassword` flag is taken from the identity response; users are considered
+   * free of a pending password change when the API omits it.
    * @returns {Promise<User>}
+   * @throws {APIError} If one of the requests fails
    */
   async constructUser(token: string): Promise<User> {
     if (!this.token) {
@@ -91,7 +103,7 @@ export class ServerTokenHandler implements TokenHandler {
       const accessList = this.accessRepo!.handleResponse<string[]>(access, 200);
       const profileData = this.profileRepo!.handleResponse(profileResult, 200);
       const identityData = this.identityRepo!.handleResponse<
-        { name: string; identity: string }
+        { name: string; identity: string; resetPassword?: boolean }
       >(
         identityResult,
         200,
@@ -108,8 +120,9 @@ export class ServerTokenHandler implements TokenHandler {
         token: this.token,
         profile,
         access: accessList,
-        resetPassword: false,
-        ...identityData,
+        name: identityData.name,
+        identity: identityData.identity,
+        resetPassword: identityData.resetPassword ?? false,
       });
 
       if (!user) {
@@ -118,6 +131,9 @@ export class ServerTokenHandler implements TokenHandler {
 
       return user;
     } catch (error) {
+      // Keep API errors typed, e.g. an UnauthorizedError for an expired token
+      if (error instanceof APIError) throw error;
+
       const message = error instanceof Error
         ? error.message
         : "Unknown error occurred";
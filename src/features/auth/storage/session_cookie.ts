@@ -0,0 +1,233 @@
+/** Default name of the cookie holding the session token */
+export const DEFAULT_TOKEN_COOKIE = "afloat_token";
+
+/** Default name of the cookie holding the CSRF token */
+export const DEFAULT_CSRF_COOKIE = "afloat_csrf";
+
+/** Header mutating requests must echo the CSRF cookie in */
+export const CSRF_HEADER = "x-csrf-token";
+
+/**
+ * Attributes of the session and CSRF cookies.
+ */
+export interface SessionCookieOptions {
+  /** Name of the httpOnly cookie holding the token. Defaults to "afloat_token" */
+  name?: string;
+  /** Name of the cookie holding the CSRF token, readable by scripts. Defaults to "afloat_csrf" */
+  csrfName?: string;
+  /** Cookie path. Defaults to "/" */
+  path?: string;
+  /** Cookie domain, e.g. to share the session across subdomains */
+  domain?: string;
+  /** Cookie lifetime in seconds. Session cookies are used when omitted */
+  maxAgeSeconds?: number;
+  /** Whether cookies are only sent over HTTPS. Defaults to true */
+  secure?: boolean;
+  /** Cookie SameSite attribute. Defaults to "Lax" */
+  sameSite?: "Strict" | "Lax" | "None";
+}
+
+/**
+ * The cookies opening a session, and its CSRF token.
+ */
+export interface IssuedSessionCookies {
+  /** `Set-Cookie` header values to append to the response */
+  setCookie: string[];
+  /** The CSRF token, e.g. to render in a meta tag. Also readable from its cookie */
+  csrfToken: string;
+}
+
+/**
+ * Issues the cookies of a session: the httpOnly token cookie and a new CSRF cookie.
+ *
+ * @param {string} token - The session token, e.g. of the user who just logged in
+ * @param {SessionCookieOptions} [options] - Optional cookie names and attributes
+ * @returns {IssuedSessionCookies} The `Set-Cookie` values and the CSRF token
+ *
+ * @example
+ * const user = await new AuthRepository().logIn(email, password);
+ * const { setCookie } = issueSessionCookies(user.token);
+ * const response = Response.json({ ok: true });
+ * setCookie.forEach((cookie) => response.headers.append("set-cookie", cookie));
+ */
+export function issueSessionCookies(
+  token: string,
+  options?: SessionCookieOptions,
+): IssuedSessionCookies {
+  const csrfToken = generateCsrfToken();
+  return {
+    setCookie: [
+      serializeCookie(options?.name ?? DEFAULT_TOKEN_COOKIE, token, options, {
+        httpOnly: true,
+      }),
+      serializeCookie(
+        options?.csrfName ?? DEFAULT_CSRF_COOKIE,
+        csrfToken,
+        options,
+        { httpOnly: false },
+      ),
+    ],
+    csrfToken,
+  };
+}
+
+/**
+ * Replaces the cookies of a session with a new token, e.g. after a refresh or a privilege
+ * change. A new CSRF token is issued as well, so the previous one stops being accepted.
+ *
+ * @param {string} token - The new session token
+ * @param {SessionCookieOptions} [options] - Optional cookie names and attributes
+ * @returns {IssuedSessionCookies} The `Set-Cookie` values and the new CSRF token
+ */
+export function rotateSessionCookies(
+  token: string,
+  options?: SessionCookieOptions,
+): IssuedSessionCookies {
+  return issueSessionCookies(token, options);
+}
+
+/**
+ * Clears the cookies of a session, e.g. on logout.
+ *
+ * @param {SessionCookieOptions} [options] - The names and attributes the cookies were issued with
+ * @returns {string[]} `Set-Cookie` header values to append to the response
+ */
+export function clearSessionCookies(options?: SessionCookieOptions): string[] {
+  const expired = { ...options, maxAgeSeconds: 0 };
+  return [
+    serializeCookie(options?.name ?? DEFAULT_TOKEN_COOKIE, "", expired, {
+      httpOnly: true,
+    }),
+    serializeCookie(options?.csrfName ?? DEFAULT_CSRF_COOKIE, "", expired, {
+      httpOnly: false,
+    }),
+  ];
+}
+
+/**
+ * Reads the session token from a request's `Cookie` header.
+ *
+ * @param {string | null | undefined} cookieHeader - The request's `Cookie` header
+ * @param {SessionCookieOptions} [options] - Optional cookie names
+ * @returns {string | undefined} The token, or undefined if the request has none
+ */
+export function readSessionCookie(
+  cookieHeader: string | null | undefined,
+  options?: SessionCookieOptions,
+): string | undefined {
+  return readCookie(cookieHeader, options?.name ?? DEFAULT_TOKEN_COOKIE);
+}
+
+/**
+ * Reads the CSRF token from a `Cookie` header, or from `document.cookie` in browsers.
+ *
+ * @param {string | null | undefined} cookieHeader - The cookies to read
+ * @param {SessionCookieOptions} [options] - Optional cookie names
+ * @returns {string | undefined} The CSRF token, or undefined if there is none
+ */
+export function readCsrfCookie(
+  cookieHeader: string | null | undefined,
+  options?: SessionCookieOptions,
+): string | undefined {
+  return readCookie(cookieHeader, options?.csrfName ?? DEFAULT_CSRF_COOKIE);
+}
+
+/**
+ * Generates a random CSRF token.
+ *
+ * @returns {string} A URL-safe token of 256 random bits
+ */
+export function generateCsrfToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Verifies a request against cross-site request forgery, with the double-submit pattern:
+ * mutating requests must echo the CSRF cookie in the `x-csrf-token` header, which
+ * other sites cannot do since they cannot read the cookie.
+ * Safe methods (GET, HEAD, OPTIONS) always pass.
+ *
+ * @param {string} method - The request's HTTP method
+ * @param {(name: string) => string | undefined | null} getHeader - Reads a request header
+ * @param {SessionCookieOptions} [options] - Optional cookie names
+ * @returns {boolean} Whether the request may proceed
+ *
+ * @example
+ * if (!verifyCsrfToken(request.method, (name) => request.headers.get(name))) {
+ *   return new Response("Invalid CSRF token", { status: 403 });
+ * }
+ */
+export function verifyCsrfToken(
+  method: string,
+  getHeader: (name: string) => string | undefined | null,
+  options?: SessionCookieOptions,
+): boolean {
+  if (["GET", "HEAD", "OPTIONS"].includes(method.toUpperCase())) return true;
+
+  const expected = readCsrfCookie(getHeader("cookie"), options);
+  const received = getHeader(CSRF_HEADER);
+  if (!expected || !received) return false;
+
+  return timingSafeEqual(expected, received);
+}
+
+/**
+ * Reads a cookie from a `Cookie` header.
+ */
+function readCookie(
+  cookieHeader: string | null | undefined,
+  name: string,
+): string | undefined {
+  const prefix = `${encodeURIComponent(name)}=`;
+  const cookie = cookieHeader
+    ?.split(";")
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(prefix));
+  if (!cookie) return undefined;
+
+  try {
+    return decodeURIComponent(cookie.slice(prefix.length)) || undefined;
+  } catch (_) {
+    // Malformed encoding: not a cookie issued by these helpers
+    return undefined;
+  }
+}
+
+/**
+ * Builds a `Set-Cookie` header value.
+ */
+function serializeCookie(
+  name: string,
+  value: string,
+  options: SessionCookieOptions | undefined,
+  flags: { httpOnly: boolean },
+): string {
+  return [
+    `${encodeURIComponent(name)}=${encodeURIComponent(value)}`,
+    `Path=${options?.path ?? "/"}`,
+    options?.domain ? `Domain=${options.domain}` : undefined,
+    options?.maxAgeSeconds !== undefined
+      ? `Max-Age=${options.maxAgeSeconds}`
+      : undefined,
+    flags.httpOnly ? "HttpOnly" : undefined,
+    options?.secure === false ? undefined : "Secure",
+    `SameSite=${options?.sameSite ?? "Lax"}`,
+  ].filter(Boolean).join("; ");
+}
+
+/**
+ * Compares two strings in a time independent of where they differ.
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
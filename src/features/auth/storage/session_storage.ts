@@ -0,0 +1,142 @@
+/**
+ * Where the client-side session (user and token) is persisted.
+ * Structurally compatible with the Web Storage API, so `localStorage`,
+ * `sessionStorage` or any synchronous store (e.g. MMKV on React Native,
+ * electron-store on Electron) can be used directly.
+ */
+export interface SessionStorageAdapter {
+  /**
+   * Reads the value stored under a key.
+   * @param {string} key - The key to read
+   * @returns {string | null} The stored value, or null if absent
+   */
+  getItem(key: string): string | null;
+
+  /**
+   * Stores a value under a key.
+   * @param {string} key - The key to write
+   * @param {string} value - The value to store
+   */
+  setItem(key: string, value: string): void;
+
+  /**
+   * Removes the value stored under a key.
+   * @param {string} key - The key to remove
+   */
+  removeItem(key: string): void;
+}
+
+/**
+ * Creates a storage keeping the session in memory only: it is lost on reload.
+ * Useful for tests and runtimes without persistent storage.
+ *
+ * @returns {SessionStorageAdapter} The in-memory storage
+ */
+export function createMemoryStorage(): SessionStorageAdapter {
+  const items = new Map<string, string>();
+
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+}
+
+/**
+ * Creates a storage backed by `localStorage`: the session survives closing the browser,
+ * e.g. for "remember me". Falls back to memory where `localStorage` is unavailable.
+ *
+ * @returns {SessionStorageAdapter} The `localStorage` storage
+ */
+export function createLocalStorage(): SessionStorageAdapter {
+  return createWebStorage("localStorage");
+}
+
+/**
+ * Creates a storage backed by `sessionStorage`: the session lasts as long as the tab.
+ * Falls back to memory where `sessionStorage` is unavailable.
+ * This is the default storage of `AfloatAuth.instance`.
+ *
+ * @returns {SessionStorageAdapter} The `sessionStorage` storage
+ */
+export function createSessionStorage(): SessionStorageAdapter {
+  return createWebStorage("sessionStorage");
+}
+
+/**
+ * Options of the cookie storage.
+ */
+export interface CookieStorageOptions {
+  /** Cookie path. Defaults to "/" */
+  path?: string;
+  /** Cookie domain, e.g. to share the session across subdomains */
+  domain?: string;
+  /** Cookie lifetime in seconds. Session cookies are used when omitted */
+  maxAgeSeconds?: number;
+  /** Whether cookies are only sent over HTTPS. Defaults to true */
+  secure?: boolean;
+  /** Cookie SameSite attribute. Defaults to "Lax" */
+  sameSite?: "Strict" | "Lax" | "None";
+}
+
+/**
+ * Creates a storage backed by `document.cookie`, e.g. to share the session
+ * with a server rendering the same pages. Cookies are limited to about 4KB each.
+ * Falls back to memory where `document` is unavailable.
+ *
+ * @param {CookieStorageOptions} [options] - Optional cookie attributes
+ * @returns {SessionStorageAdapter} The cookie storage
+ */
+export function createCookieStorage(
+  options?: CookieStorageOptions,
+): SessionStorageAdapter {
+  const document = (globalThis as { document?: { cookie: string } }).document;
+  if (!document) return createMemoryStorage();
+
+  const attributes = [
+    `path=${options?.path ?? "/"}`,
+    options?.domain ? `domain=${options.domain}` : undefined,
+    options?.secure === false ? undefined : "secure",
+    `samesite=${options?.sameSite ?? "Lax"}`,
+  ];
+
+  const write = (key: string, value: string, maxAge?: number) => {
+    document.cookie = [
+      `${encodeURIComponent(key)}=${encodeURIComponent(value)}`,
+      ...attributes,
+      maxAge !== undefined ? `max-age=${maxAge}` : undefined,
+    ].filter(Boolean).join("; ");
+  };
+
+  return {
+    getItem: (key) => {
+      const name = `${encodeURIComponent(key)}=`;
+      const cookie = document.cookie
+        .split(";")
+        .map((part) => part.trim())
+        .find((part) => part.startsWith(name));
+      return cookie ? decodeURIComponent(cookie.slice(name.length)) : null;
+    },
+    setItem: (key, value) => write(key, value, options?.maxAgeSeconds),
+    removeItem: (key) => write(key, "", 0),
+  };
+}
+
+/**
+ * Wraps a Web Storage object, falling back to memory when it is unavailable
+ * (non-browser runtimes, or browsers blocking storage access).
+ */
+function createWebStorage(
+  name: "localStorage" | "sessionStorage",
+): SessionStorageAdapter {
+  try {
+    const storage = (globalThis as Record<string, unknown>)[name] as
+      | SessionStorageAdapter
+      | undefined;
+    if (storage) return storage;
+  } catch (_) {
+    // Accessing the storage throws when it is blocked
+  }
+
+  return createMemoryStorage();
+}
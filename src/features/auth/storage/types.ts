@@ -21,6 +21,12 @@ export interface AuthStore {
    * Clears the current authentication state.
    */
   refresh(): void;
+
+  /**
+   * Re-reads the state from the persistent storage, e.g. after another tab changed it.
+   * Stores without persistent storage omit it.
+   */
+  reload?(): Promise<void> | void;
 }
 
 /**
@@ -0,0 +1,223 @@
+import { User } from "@models/user/index.ts";
+
+/**
+ * A key-value store holding serialized users, e.g. an in-memory map or Redis.
+ * Keys are token hashes and values omit the token, so raw tokens are never stored.
+ */
+export interface UserCache {
+  /**
+   * Gets the value stored under a key.
+   * @param {string} key - The key to read
+   * @returns {Promise<string | undefined>} The stored value, or undefined if absent or expired
+   */
+  get(key: string): Promise<string | undefined>;
+
+  /**
+   * Stores a value under a key for a limited time.
+   * @param {string} key - The key to write
+   * @param {string} value - The value to store
+   * @param {number} ttlMs - Time after which the value expires, in milliseconds
+   */
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+
+  /**
+   * Deletes the value stored under a key.
+   * @param {string} key - The key to delete
+   */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * In-memory {@link UserCache} evicting the least recently used entries once full.
+ */
+export class MemoryUserCache implements UserCache {
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+  private maxEntries: number;
+
+  /**
+   * Creates a new in-memory cache.
+   * @param {Object} [options] - Optional cache options
+   * @param {number} [options.maxEntries=1000] - Number of entries kept before evicting the oldest
+   */
+  constructor(options?: { maxEntries?: number }) {
+    this.maxEntries = options?.maxEntries ?? 1000;
+  }
+
+  get(key: string): Promise<string | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return Promise.resolve(undefined);
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return Promise.resolve(undefined);
+
+    // Re-insert the entry to mark it as the most recently used
+    this.entries.set(key, entry);
+    return Promise.resolve(entry.value);
+  }
+
+  set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * How users constructed by `AfloatAuth.initializeServer` are cached.
+ */
+export interface UserCacheOptions {
+  /** The store holding cached users */
+  store: UserCache;
+  /** Time a cached user is reused for, in milliseconds */
+  ttlMs: number;
+}
+
+/** Default time a cached user is reused for, in milliseconds */
+export const DEFAULT_USER_CACHE_TTL_MS = 60_000;
+
+/**
+ * Global user cache used by `AfloatAuth.initializeServer`.
+ * Undefined, the default, disables caching.
+ */
+export const UserCacheContext = {
+  current: undefined as UserCacheOptions | undefined,
+};
+
+/**
+ * Enables caching of the users constructed by `AfloatAuth.initializeServer`,
+ * so repeated requests with the same token skip the three API calls it makes.
+ *
+ * @param {Partial<UserCacheOptions>} [options] - The store (an in-memory LRU cache by default)
+ * and TTL (one minute by default) to use
+ *
+ * @example
+ * // In-memory cache
+ * configureUserCache();
+ *
+ * // Redis, through any client with get/set/del commands
+ * configureUserCache({
+ *   ttlMs: 5 * 60_000,
+ *   store: {
+ *     get: async (key) => (await redis.get(key)) ?? undefined,
+ *     set: async (key, value, ttlMs) => { await redis.set(key, value, { PX: ttlMs }); },
+ *     delete: async (key) => { await redis.del(key); },
+ *   },
+ * });
+ */
+export function configureUserCache(options?: Partial<UserCacheOptions>): void {
+  UserCacheContext.current = resolveUserCache(options);
+}
+
+/**
+ * Disables caching of the users constructed by `AfloatAuth.initializeServer`.
+ */
+export function resetUserCache(): void {
+  UserCacheContext.current = undefined;
+}
+
+/**
+ * Removes the user cached for a token, e.g. after its permissions changed or it was revoked.
+ *
+ * @param {string} token - The token whose user should be reconstructed on next use
+ * @param {UserCacheOptions} [cache] - The cache to remove it from. Defaults to the global one.
+ */
+export async function invalidateCachedUser(
+  token: string,
+  cache: UserCacheOptions | undefined = UserCacheContext.current,
+): Promise<void> {
+  if (!cache) return;
+  await cache.store.delete(await userCacheKey(token));
+}
+
+/**
+ * Fills in the defaults of partial cache options.
+ *
+ * @param {Partial<UserCacheOptions>} [options] - The options to complete
+ * @returns {UserCacheOptions} The complete options
+ */
+export function resolveUserCache(
+  options?: Partial<UserCacheOptions>,
+): UserCacheOptions {
+  return {
+    store: options?.store ?? defaultStore(),
+    ttlMs: options?.ttlMs ?? DEFAULT_USER_CACHE_TTL_MS,
+  };
+}
+
+/**
+ * Gets the user cached for a token.
+ * Cache failures are logged and treated as a miss, so they never fail a request.
+ *
+ * @param {UserCacheOptions} cache - The cache to read
+ * @param {string} token - The user's token
+ * @returns {Promise<User | undefined>} The cached user, or undefined on a miss
+ */
+export async function getCachedUser(
+  cache: UserCacheOptions,
+  token: string,
+): Promise<User | undefined> {
+  try {
+    const json = await cache.store.get(await userCacheKey(token));
+    // The entry is keyed by the token's hash: re-attach the token it was stored without
+    return json ? User.from({ ...JSON.parse(json), token }) : undefined;
+  } catch (error) {
+    console.error("Failed to read the user cache:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Caches a user under its token's hash, without the token, never beyond the token's expiry.
+ * Cache failures are logged and ignored, so they never fail a request.
+ *
+ * @param {UserCacheOptions} cache - The cache to write
+ * @param {User} user - The user to cache
+ */
+export async function cacheUser(
+  cache: UserCacheOptions,
+  user: User,
+): Promise<void> {
+  const ttlMs = user.expiresAt
+    ? Math.min(cache.ttlMs, user.expiresAt.getTime() - Date.now())
+    : cache.ttlMs;
+  if (ttlMs <= 0) return;
+
+  try {
+    const key = await userCacheKey(user.token);
+    const { token: _, ...data } = JSON.parse(user.toJSON());
+    await cache.store.set(key, JSON.stringify(data), ttlMs);
+  } catch (error) {
+    console.error("Failed to write the user cache:", error);
+  }
+}
+
+/** Shared in-memory store, created on first use */
+let memoryStore: MemoryUserCache | undefined;
+
+function defaultStore(): MemoryUserCache {
+  memoryStore ??= new MemoryUserCache();
+  return memoryStore;
+}
+
+/**
+ * Derives the cache key of a token from its SHA-256 hash,
+ * so tokens are never stored in clear in the cache keys.
+ */
+async function userCacheKey(token: string): Promise<string> {
+  const data = new TextEncoder().encode(token);
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  const hex = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return `afloat:user:${hex}`;
+}
@@ -0,0 +1,134 @@
+/**
+ * A session change broadcast to the other tabs of the same origin.
+ * Messages only signal the change: they never carry the user or its token, which the
+ * other tabs reload from their own storage.
+ */
+export type TabSyncMessage =
+  | { type: "login" }
+  | { type: "userUpdated" }
+  | { type: "logout"; expired: boolean };
+
+/** Name of the channel session changes are broadcast on */
+const TAB_SYNC_CHANNEL = "afloat-auth";
+
+/** Minimal structural type of `BroadcastChannel`, available in browsers and workers */
+interface BroadcastChannelLike {
+  onmessage: ((event: { data: unknown }) => void) | null;
+  postMessage(message: unknown): void;
+  close(): void;
+  /** Lets the process exit while the channel is open, in Node */
+  unref?(): void;
+}
+
+/** Minimal structural type of the `storage` event target, i.e. `window` */
+interface StorageEventTarget {
+  addEventListener(
+    type: "storage",
+    listener: (event: { key: string | null; newValue: string | null }) => void,
+  ): void;
+  removeEventListener(
+    type: "storage",
+    listener: (event: { key: string | null; newValue: string | null }) => void,
+  ): void;
+}
+
+/**
+ * Broadcasts session changes between the tabs of the same origin, with a `BroadcastChannel`
+ * or, where unavailable, `storage` events. Messages are never delivered to the sending tab.
+ * Outside browsers (no `window` or `document`), nothing is opened and messages are
+ * silently dropped, so server processes using the client singleton can still exit.
+ */
+export class TabSync {
+  private channel: BroadcastChannelLike | undefined;
+  private storageListener:
+    | ((event: { key: string | null; newValue: string | null }) => void)
+    | undefined;
+
+  /**
+   * Starts listening to the session changes of the other tabs.
+   * @param {(message: TabSyncMessage) => void} onMessage - Called with every message received
+   */
+  constructor(onMessage: (message: TabSyncMessage) => void) {
+    const global = globalThis as {
+      BroadcastChannel?: new (name: string) => BroadcastChannelLike;
+      localStorage?: Storage;
+      window?: unknown;
+      document?: unknown;
+    } & Partial<StorageEventTarget>;
+
+    // There are no other tabs outside browsers
+    if (!global.window && !global.document) return;
+
+    if (global.BroadcastChannel) {
+      this.channel = new global.BroadcastChannel(TAB_SYNC_CHANNEL);
+      this.channel.unref?.();
+      this.channel.onmessage = (event) => {
+        if (isTabSyncMessage(event.data)) onMessage(event.data);
+      };
+      return;
+    }
+
+    if (global.addEventListener && global.localStorage) {
+      this.storageListener = (event) => {
+        if (event.key !== TAB_SYNC_CHANNEL || !event.newValue) return;
+        try {
+          const message = JSON.parse(event.newValue);
+          if (isTabSyncMessage(message)) onMessage(message);
+        } catch (_) {
+          // Ignore values not written by TabSync
+        }
+      };
+      global.addEventListener("storage", this.storageListener);
+    }
+  }
+
+  /**
+   * Sends a session change to the other tabs.
+   * @param {TabSyncMessage} message - The change to send
+   */
+  post(message: TabSyncMessage): void {
+    if (this.channel) return this.channel.postMessage(message);
+    if (!this.storageListener) return;
+
+    try {
+      // A unique value, so that repeating a message still fires a storage event
+      const value = JSON.stringify({ ...message, nonce: Math.random() });
+      localStorage.setItem(TAB_SYNC_CHANNEL, value);
+      localStorage.removeItem(TAB_SYNC_CHANNEL);
+    } catch (error) {
+      console.error("Failed to synchronize the session across tabs:", error);
+    }
+  }
+
+  /**
+   * Stops listening to the other tabs.
+   */
+  close(): void {
+    this.channel?.close();
+    this.channel = undefined;
+
+    if (this.storageListener) {
+      (globalThis as Partial<StorageEventTarget>).removeEventListener?.(
+        "storage",
+        this.storageListener,
+      );
+      this.storageListener = undefined;
+    }
+  }
+}
+
+/**
+ * Checks that a value received from another tab is a well-formed message.
+ */
+function isTabSyncMessage(value: unknown): value is TabSyncMessage {
+  const message = value as Record<string, unknown> | null;
+  switch (message?.type) {
+    case "login":
+    case "userUpdated":
+      return true;
+    case "logout":
+      return typeof message.expired === "boolean";
+    default:
+      return false;
+  }
+}
@@ -1,13 +1,14 @@
-import { BaseRepository } from "@shared/base_repository.ts";
+import {
+  BaseRepository,
+  type BaseRepositoryArgs,
+} from "@shared/base_repository.ts";
 import { contract } from "@features/contact/contract.ts";
 import {
   Contact,
   type ContactData,
   type ContactInput,
 } from "@models/contact/index.ts";
-import type { AfloatAuth } from "@features/auth/manager.ts";
-import { Permissions } from "@models/index.ts";
-import { PermissionError } from "@errors/index.ts";
+import type { RequestOptions } from "@shared/request_options.ts";
 
 /**
  * Repository class for managing `Contact` data through API interactions.
@@ -19,30 +20,29 @@ export class ContactRepository extends BaseRepository<typeof contract> {
    * @param {Object} [props] - Optional constructor properties
    * @param {AfloatAuth} [props.auth] - Optional auth instance to use
    * @param {string} [props.root] - Optional API root URL
+   * @param {Transport} [props.transport] - Optional transport overriding the global one
+   * @param {AfloatConfigInput} [props.config] - Optional configuration overriding the global one
    */
-  constructor(props?: { auth?: AfloatAuth; root?: string }) {
+  constructor(props?: BaseRepositoryArgs) {
     super("contact", contract, props);
   }
 
   /**
    * Creates a new contact record.
    * @param {ContactInput} input - The data required to create a new contact.
+   * @param {RequestOptions} [options] - Optional signal, timeout and idempotency key
    * @returns {Promise<Contact>} A promise that resolves to the newly created contact.
    * @throws {PermissionError} If the user lacks required permissions
    * @throws {APIError} If the response status code is not 201.
+   * @throws {TimeoutError} If the request takes longer than the timeout
    */
-  async create(input: ContactInput): Promise<Contact> {
-    const auth = this.getAuthForPermissionCheck();
-    const requiredPerm = Permissions.Contact.Create;
-    
-    if (!auth.checkPermission(requiredPerm)) {
-      throw new PermissionError({
-        message: "You are not authorized to add contacts.",
-        requiredPermissions: [requiredPerm],
-      });
-    }
+  async create(
+    input: ContactInput,
+    options?: RequestOptions,
+  ): Promise<Contact> {
+    this.requirePermissions("contact.create");
 
-    const result = await this.client.postContact({ body: input });
+    const result = await this.clientWith(options).postContact({ body: input });
     const data = this.handleResponse<ContactData>(result, 201);
     return Contact.create(data);
   }
@@ -51,22 +51,20 @@ export class ContactRepository extends BaseRepository<typeof contract> {
    * Updates an existing contact record by ID.
    * @param {string} id - The unique identifier of the contact to edit.
    * @param {ContactInput} input - The data to update the contact with.
+   * @param {RequestOptions} [options] - Optional signal, timeout and idempotency key
    * @returns {Promise<Contact>} A promise that resolves to the updated contact.
    * @throws {PermissionError} If the user lacks required permissions
    * @throws {APIError} If the response status code is not 200.
+   * @throws {TimeoutError} If the request takes longer than the timeout
    */
-  async edit(id: string, input: ContactInput): Promise<Contact> {
-    const auth = this.getAuthForPermissionCheck();
-    const requiredPerm = Permissions.Contact.Update;
-    
-    if (!auth.checkPermission(requiredPerm)) {
-      throw new PermissionError({
-        message: "You are not authorized to update contacts.",
-        requiredPermissions: [requiredPerm],
-      });
-    }
+  async edit(
+    id: string,
+    input: ContactInput,
+    options?: RequestOptions,
+  ): Promise<Contact> {
+    this.requirePermissions("contact.update");
 
-    const result = await this.client.editContact({
+    const result = await this.clientWith(options).editContact({
       params: { id },
       body: input,
     });
@@ -77,22 +75,18 @@ export class ContactRepository extends BaseRepository<typeof contract> {
   /**
    * Deletes a contact record by ID.
    * @param {string} id - The unique identifier of the contact to remove.
+   * @param {RequestOptions} [options] - Optional signal, timeout and idempotency key
    * @returns {Promise<void>} A promise that resolves when the deletion is complete.
    * @throws {PermissionError} If the user lacks required permissions
    * @throws {APIError} If the response status code is not 200.
+   * @throws {TimeoutError} If the request takes longer than the timeout
    */
-  async remove(id: string): Promise<void> {
-    const auth = this.getAuthForPermissionCheck();
-    const requiredPerm = Permissions.Contact.Delete;
-    
-    if (!auth.checkPermission(requiredPerm)) {
-      throw new PermissionError({
-        message: "You are not authorized to delete contacts.",
-        requiredPermissions: [requiredPerm],
-      });
-    }
+  async remove(id: string, options?: RequestOptions): Promise<void> {
+    this.requirePermissions("contact.delete");
 
-    const result = await this.client.deleteContact({ params: { id } });
+    const result = await this.clientWith(options).deleteContact({
+      params: { id },
+    });
     this.handleResponse<void>(result, 200);
   }
 
@@ -100,26 +94,20 @@ export class ContactRepository extends BaseRepository<typeof contract> {
    * Retrieves all contacts
    * Results are ordered in descending order by default.
    *
+   * @param {RequestOptions} [options] - Optional signal, timeout and idempotency key
    * @returns {Promise<Contact[]>} A promise that resolves to an array of contacts.
    * @throws {PermissionError} If the user lacks required permissions
    * @throws {APIError} If the response status code is not 200 or the range is invalid.
+   * @throws {TimeoutError} If the request takes longer than the timeout
    * @example
    * const repository = new ContactRepository();
    * repository.getAll().then(contacts => console.log(contacts));
    */
-  async getAll(): Promise<Contact[]> {
-    const auth = this.getAuthForPermissionCheck();
-    const requiredPerm = Permissions.Contact.List;
-    
-    if (!auth.checkPermission(requiredPerm)) {
-      throw new PermissionError({
-        message: "You are not authorized to view contacts.",
-        requiredPermissions: [requiredPerm],
-      });
-    }
+  async getAll(options?: RequestOptions): Promise<Contact[]> {
+    this.requirePermissions("contact.list");
 
     const query = { orderByDesc: "createdAt" };
-    const result = await this.client.getContacts({ query });
+    const result = await this.clientWith(options).getContacts({ query });
     const data = this.handleResponse<ContactData[]>(result, 200);
     return Contact.createMany(data);
   }
@@ -1,14 +1,13 @@
-import { BaseRepository } from "@shared/index.ts";
+import { BaseRepository, type BaseRepositoryArgs } from "@shared/index.ts";
 import { contract, type PayoutAPI } from "@features/payout/contract.ts";
 import {
   type GetPayoutsAPIArgs,
   PAYOUT_APPROVAL_STATUS,
   type PayoutInput,
 } from "@models/payout/index.ts";
-import type { AfloatAuth } from "@features/auth/manager.ts";
-import { Permissions } from "@models/permission.ts";
-import { APIError, PermissionError } from "@errors/index.ts";
+import { errorFromResponse, ValidationError } from "@errors/index.ts";
 import { Payout } from "@models/payout/derivatives/payout.ts";
+import type { RequestOptions } from "@shared/request_options.ts";
 
 /**
  * Repository class for managing payout operations including creation, approval,
@@ -20,9 +19,12 @@ export class PayoutRepository extends BaseRepository<PayoutAPI> {
    * Creates an instance of PayoutRepository initialized with the payout contract.
    * @param {Object} [props] - Optional constructor properties
    * @param {AfloatAuth} [props.auth] - Optional auth instance to use
+   * @param {string} [props.root] - Optional API root URL
+   * @param {Transport} [props.transport] - Optional transport overriding the global one
+   * @param {AfloatConfigInput} [props.config] - Optional configuration overriding the global one
    */
-  constructor(props?: { auth?: AfloatAuth }) {
-    super("payout", contract, { auth: props?.auth });
+  constructor(props?: BaseRepositoryArgs) {
+    super("payout", contract, props);
   }
 
   /**
@@ -31,23 +33,18 @@ export class PayoutRepository extends BaseRepository<PayoutAPI> {
    * @param {number} [args.rangeStart=0] - Starting index for pagination
    * @param {number} [args.rangeEnd=10] - Ending index for pagination
    * @param {boolean} [args.pending] - Filter for pending payouts only
+   * @param {RequestOptions} [options] - Optional signal, timeout and idempotency key
    * @throws {PermissionError} If user lacks the Payout.List permission
-   * @throws {APIError} If range is invalid or if the fetch operation fails
+   * @throws {ValidationError} If the range is invalid
+   * @throws {APIError} If the fetch operation fails
+   * @throws {TimeoutError} If the request takes longer than the timeout
    * @returns {Promise<{results: Payout[]; total: number}>} Paginated payout results and total count
    */
-  async getAll(args?: GetPayoutsAPIArgs): Promise<{
+  async getAll(args?: GetPayoutsAPIArgs, options?: RequestOptions): Promise<{
     results: Payout[];
     total: number;
   }> {
-    const auth = this.getAuthForPermissionCheck();
-    const requiredPerm = Permissions.Payout.List;
-    
-    if (!auth.checkPermission(requiredPerm)) {
-      throw new PermissionError({
-        message: "You are not authorized to view payouts.",
-        requiredPermissions: [requiredPerm],
-      });
-    }
+    this.requirePermissions("payout.list");
 
     const rangeStart = args?.rangeStart ?? 0;
     const rangeEnd = args?.rangeEnd ?? 10;
@@ -65,13 +62,13 @@ export class PayoutRepository extends BaseRepository<PayoutAPI> {
     }
 
     if (rangeEnd <= rangeStart) {
-      throw new APIError({
+      throw new ValidationError({
         message: "Invalid range: end-date must be greater than start-date",
         statusCode: 400,
       });
     }
 
-    const result = await this.client.getPayouts({ query: query });
+    const result = await this.clientWith(options).getPayouts({ query: query });
 
     if (result.status === 200) {
       return {
@@ -80,34 +77,32 @@ export class PayoutRepository extends BaseRepository<PayoutAPI> {
       };
     }
 
-    throw APIError.unknown("An error occured while fetching payouts");
+    throw errorFromResponse(result);
   }
 
   /**
    * Creates a new payout with the provided input data.
+   * The request carries an idempotency key that stays the same across retries,
+   * so a retried request can never create a duplicate payout.
    * @param {PayoutInput} input - The payout creation data
+   * @param {RequestOptions} [options] - Optional signal, timeout and idempotency key.
+   * Pass `idempotencyKey` to keep deduplicating across page reloads; it is generated when not provided.
    * @throws {PermissionError} If user lacks the Payout.Create permission
-   * @throws {APIError} If the input is invalid or if the creation operation fails
+   * @throws {ValidationError} If the input is invalid
+   * @throws {APIError} If the creation operation fails
+   * @throws {TimeoutError} If the request takes longer than the timeout
    * @returns {Promise<Payout>} The created payout
    */
-  async pay(input: PayoutInput): Promise<Payout> {
-    const auth = this.getAuthForPermissionCheck();
-    const requiredPerm = Permissions.Payout.Create;
-    
-    if (!auth.checkPermission(requiredPerm)) {
-      throw new PermissionError({
-        message: "You are not authorized to create payouts.",
-        requiredPermissions: [requiredPerm],
-      });
-    }
+  async pay(input: PayoutInput, options?: RequestOptions): Promise<Payout> {
+    this.requirePermissions("payout.create");
 
-    const result = await this.client.postPayout({ body: input });
+    const requestOptions = this.withIdempotencyKey(options);
+    const result = await this.clientWith(requestOptions).postPayout({
+      body: input,
+    });
     if (result.status === 201) return Payout.create(result.body);
-    if (result.status === 400) {
-      throw new APIError(result.body);
-    }
 
-    throw APIError.unknown();
+    throw errorFromResponse(result);
   }
 
   /**
@@ -115,40 +110,39 @@ export class PayoutRepository extends BaseRepository<PayoutAPI> {
    * @param {string} id - The ID of the payout to approve
    * @param {Object} [args] - Optional arguments
    * @param {string} [args.notes] - Optional notes for the approval
+   * @param {RequestOptions} [options] - Optional signal, timeout and idempotency key
    * @throws {PermissionError} If user lacks the Payout.Approve permission
-   * @throws {APIError} If payout is not found, already approved, or if the operation fails
+   * @throws {StepUpRequiredError} If the user must confirm their identity first
+   * @throws {NotFoundError} If the payout is not found
+   * @throws {ConflictError} If the payout is already approved
+   * @throws {APIError} If the operation fails
+   * @throws {TimeoutError} If the request takes longer than the timeout
    * @returns {Promise<Payout>} The approved payout
    */
-  async approve(id: string, args?: { notes?: string }): Promise<Payout> {
-    const auth = this.getAuthForPermissionCheck();
-    const requiredPerm = Permissions.Payout.Approve;
-    
-    if (!auth.checkPermission(requiredPerm)) {
-      throw new PermissionError({
-        message: "You are not authorized to approve or reject payouts.",
-        requiredPermissions: [requiredPerm],
+  async approve(
+    id: string,
+    args?: { notes?: string },
+    options?: RequestOptions,
+  ): Promise<Payout> {
+    this.requirePermissions("payout.approve");
+
+    // Generated once, so retrying after a step-up sends the same key
+    const requestOptions = this.withIdempotencyKey(options);
+    return await this.withStepUp("payout.approve", async () => {
+      const result = await this.clientWith(requestOptions).approve({
+        params: { id },
+        body: { action: "Approve", notes: args?.notes },
       });
-    }
 
-    const result = await this.client.approve({
-      params: { id },
-      body: { action: "Approve", notes: args?.notes },
-    });
+      if (result.status === 201) {
+        return Payout.create(result.body);
+      }
 
-    if (result.status === 201) {
-      return Payout.create(result.body);
-    }
-    if (result.status === 404) {
-      throw new APIError({ message: "Payout not found", statusCode: 404 });
-    }
-    if (result.status === 409) {
-      throw new APIError({
-        message: "Payout already approved",
-        statusCode: 409,
+      throw errorFromResponse(result, {
+        404: "Payout not found",
+        409: "Payout already approved",
       });
-    }
-
-    throw APIError.unknown();
+    });
   }
 
   /**
@@ -156,22 +150,23 @@ export class PayoutRepository extends BaseRepository<PayoutAPI> {
    * @param {string} id - The ID of the payout to reject
    * @param {Object} [args] - Optional arguments
    * @param {string} [args.notes] - Optional notes for the rejection
+   * @param {RequestOptions} [options] - Optional signal, timeout and idempotency key
    * @throws {PermissionError} If user lacks the Payout.Approve permission
-   * @throws {APIError} If payout is not found, already rejected, or if the operation fails
+   * @throws {NotFoundError} If the payout is not found
+   * @throws {ConflictError} If the payout is already rejected
+   * @throws {APIError} If the operation fails
+   * @throws {TimeoutError} If the request takes longer than the timeout
    * @returns {Promise<Payout>} The rejected payout
    */
-  async reject(id: string, args?: { notes?: string }): Promise<Payout> {
-    const auth = this.getAuthForPermissionCheck();
-    const requiredPerm = Permissions.Payout.Approve;
-    
-    if (!auth.checkPermission(requiredPerm)) {
-      throw new PermissionError({
-        message: "You are not authorized to approve or reject payouts.",
-        requiredPermissions: [requiredPerm],
-      });
-    }
-
-    const result = await this.client.approve({
+  async reject(
+    id: string,
+    args?: { notes?: string },
+    options?: RequestOptions,
+  ): Promise<Payout> {
+    this.requirePermissions("payout.reject");
+
+    const requestOptions = this.withIdempotencyKey(options);
+    const result = await this.clientWith(requestOptions).approve({
       params: { id },
       body: { action: "Reject", notes: args?.notes },
     });
@@ -179,16 +174,10 @@ export class PayoutRepository extends BaseRepository<PayoutAPI> {
     if (result.status === 201) {
       return Payout.create(result.body);
     }
-    if (result.status === 404) {
-      throw new APIError({ message: "Payout not found", statusCode: 404 });
-    }
-    if (result.status === 409) {
-      throw new APIError({
-        message: "Payout already rejected",
-        statusCode: 409,
-      });
-    }
 
-    throw APIError.unknown();
+    throw errorFromResponse(result, {
+      404: "Payout not found",
+      409: "Payout already rejected",
+    });
   }
 }
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import type { ApiFetcher } from "@ts-rest/core";
+import { AfloatAuth } from "@features/auth/manager.ts";
+import { PayoutRepository } from "@features/payout/repository.ts";
+import { Permissions } from "@models/permission.ts";
+import { APIError } from "@errors/api_error.ts";
+import { configureTransport, resetTransport } from "@shared/transport.ts";
+import { configureAfloat, resetAfloatConfig } from "@shared/config.ts";
+import { IDEMPOTENCY_KEY_HEADER } from "@shared/retry.ts";
+
+const input = {
+  channel: "TZ-MOBILE-B2C",
+  msisdn: "255712345678",
+  amount: 10_000,
+  description: "Supplier payment",
+  payeeName: "Juma Hamisi",
+};
+
+/**
+ * A fake API serving the current user, and failing every payout with a 503.
+ * Records the requests sent to the payout endpoint.
+ */
+function fakeApi(): {
+  fetcher: ApiFetcher;
+  payoutCalls: Parameters<ApiFetcher>[0][];
+} {
+  const payoutCalls: Parameters<ApiFetcher>[0][] = [];
+  const respond = (status: number, body: unknown) =>
+    Promise.resolve({ status, body, headers: new Headers() });
+
+  const fetcher: ApiFetcher = (args) => {
+    const path = new URL(args.path).pathname;
+    if (path.endsWith("/auth/access")) {
+      return respond(200, [Permissions.Payout.Create]);
+    }
+    if (path.endsWith("/profile/me")) {
+      return respond(200, {
+        id: "profile-1",
+        displayName: "Acme Ltd",
+        accountNo: "0150000000",
+      });
+    }
+    if (path.endsWith("/login/me")) {
+      return respond(200, { name: "Amina", identity: "amina@acme.co.tz" });
+    }
+    if (path.endsWith("/payout")) {
+      payoutCalls.push(args);
+      return respond(503, { message: "Service unavailable" });
+    }
+    return respond(404, { message: "Not found" });
+  };
+  return { fetcher, payoutCalls };
+}
+
+/**
+ * Runs a test against the fake API, restoring the global transport and configuration after.
+ */
+async function withFakeApi(
+  test: (api: ReturnType<typeof fakeApi>) => Promise<void>,
+): Promise<void> {
+  const api = fakeApi();
+  configureTransport({ fetcher: api.fetcher });
+  configureAfloat({ retry: { baseDelayMs: 0, jitter: false } });
+  try {
+    await test(api);
+  } finally {
+    resetTransport();
+    resetAfloatConfig();
+  }
+}
+
+Deno.test("pay sends the same idempotency key with every retry", async () => {
+  await withFakeApi(async ({ payoutCalls }) => {
+    const auth = await AfloatAuth.initializeServer("token", { cache: false });
+
+    await assertRejects(
+      () => new PayoutRepository({ auth }).pay(input),
+      APIError,
+    );
+
+    const keys = payoutCalls.map((call) =>
+      call.headers[IDEMPOTENCY_KEY_HEADER]
+    );
+    assertEquals(keys.length, 3);
+    assertEquals(new Set(keys).size, 1);
+    assertEquals(typeof keys[0], "string");
+  });
+});
+
+Deno.test("pay sends the caller's idempotency key", async () => {
+  await withFakeApi(async ({ payoutCalls }) => {
+    const auth = await AfloatAuth.initializeServer("token", { cache: false });
+
+    await assertRejects(
+      () =>
+        new PayoutRepository({ auth }).pay(input, {
+          idempotencyKey: "draft-1",
+        }),
+      APIError,
+    );
+
+    assertEquals(
+      payoutCalls.map((call) => call.headers[IDEMPOTENCY_KEY_HEADER]),
+      ["draft-1", "draft-1", "draft-1"],
+    );
+  });
+});
+
+Deno.test("separate pay calls send different idempotency keys", async () => {
+  await withFakeApi(async ({ payoutCalls }) => {
+    const auth = await AfloatAuth.initializeServer("token", { cache: false });
+    const repo = new PayoutRepository({ auth });
+
+    await assertRejects(() => repo.pay(input), APIError);
+    await assertRejects(() => repo.pay(input), APIError);
+
+    const keys = new Set(
+      payoutCalls.map((call) => call.headers[IDEMPOTENCY_KEY_HEADER]),
+    );
+    assertEquals(keys.size, 2);
+  });
+});
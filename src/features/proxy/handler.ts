@@ -0,0 +1,303 @@
+import { AfloatAuth } from "@features/auth/manager.ts";
+import { CookieTokenHandler } from "@features/auth/storage/cookie_token_handler.ts";
+import {
+  clearSessionCookies,
+  readSessionCookie,
+  type SessionCookieOptions,
+  verifyCsrfToken,
+} from "@features/auth/storage/session_cookie.ts";
+import {
+  type AfloatConfigInput,
+  getApiRoot,
+  resolveAfloatConfig,
+} from "@shared/config.ts";
+import { type FetchFunction, TransportContext } from "@shared/transport.ts";
+import { REQUEST_ID_HEADER } from "@shared/interceptors.ts";
+import { IDEMPOTENCY_KEY_HEADER } from "@shared/retry.ts";
+
+/**
+ * API endpoints exposed by the proxy by default: the repositories usable from browsers.
+ * Only the "auth" routes listed in {@link PROXY_AUTH_ROUTES} and
+ * {@link PUBLIC_PROXY_AUTH_ROUTES} are exposed.
+ */
+export const DEFAULT_PROXY_ENDPOINTS: string[] = [
+  "payout",
+  "wallet",
+  "contact",
+  "admin",
+  "auth",
+];
+
+/**
+ * Auth routes forwarded with the session's token: changing the password and confirming
+ * the user's identity before sensitive operations.
+ * Logging in, including the one-time code routes, is not proxied since it returns the token:
+ * log in on the server and issue the session cookies there.
+ */
+export const PROXY_AUTH_ROUTES: string[] = [
+  "/auth/password",
+  "/auth/login/confirm",
+];
+
+/**
+ * Auth routes forwarded without a session, since the user is logged out:
+ * the forgot password flow.
+ */
+export const PUBLIC_PROXY_AUTH_ROUTES: string[] = [
+  "/auth/password/forgot",
+  "/auth/password/reset/verify",
+  "/auth/password/reset",
+];
+
+/**
+ * Placeholder replacing the token of the users the proxy's session route returns,
+ * so the real token never reaches the browser.
+ */
+export const PROXY_SESSION_TOKEN = "afloat-proxy-session";
+
+/**
+ * Route of the proxy clearing the session cookies, relative to its base path.
+ * `logOut` posts to it on instances created with `initializeProxyClient`.
+ */
+export const PROXY_LOGOUT_ROUTE = "/session/logout";
+
+/** Request headers forwarded to the API */
+const FORWARDED_REQUEST_HEADERS = [
+  "accept",
+  "content-type",
+  REQUEST_ID_HEADER,
+  IDEMPOTENCY_KEY_HEADER,
+];
+
+/** Response headers forwarded to the browser */
+const FORWARDED_RESPONSE_HEADERS = [
+  "content-type",
+  "retry-after",
+  REQUEST_ID_HEADER,
+];
+
+/**
+ * Options of {@link createAfloatProxy}.
+ */
+export interface AfloatProxyOptions {
+  /** Path the proxy is mounted at, e.g. "/api/afloat" */
+  basePath: string;
+  /** API endpoints exposed. Defaults to {@link DEFAULT_PROXY_ENDPOINTS} */
+  endpoints?: string[];
+  /** Names and attributes of the session cookies, as issued with `issueSessionCookies` */
+  cookie?: SessionCookieOptions;
+  /** Whether mutating requests must pass the double-submit CSRF check. Defaults to true */
+  csrf?: boolean;
+  /** Configuration overriding the global one, e.g. the environment to forward to */
+  config?: AfloatConfigInput;
+  /** `fetch` used to reach the API. Defaults to the global transport's, then the global `fetch` */
+  fetch?: FetchFunction;
+}
+
+/**
+ * Creates a backend-for-frontend proxy, so browsers never hold the API token.
+ *
+ * The handler forwards `{basePath}/{endpoint}/...` to the Afloat API, injecting the token of
+ * the httpOnly session cookie, and serves the current user at `{basePath}/session` with its
+ * token replaced by {@link PROXY_SESSION_TOKEN}. A `POST` to {@link PROXY_LOGOUT_ROUTE}
+ * clears the session cookies. Browsers then use the SDK through
+ * `AfloatAuth.initializeProxyClient`.
+ *
+ * Requests without a session get a 401, and mutating requests failing the CSRF check a 403.
+ * Paths with encoded slashes or dot segments, which could reach other endpoints once the
+ * API decodes them, get a 400.
+ * The forgot password routes of {@link PUBLIC_PROXY_AUTH_ROUTES} need neither, and are
+ * forwarded without a token.
+ *
+ * @param {AfloatProxyOptions} options - The proxy's path and options
+ * @returns {(request: Request) => Promise<Response>} A Fetch API handler, e.g. for
+ * Next.js route handlers, Hono, Deno or Bun
+ *
+ * @example
+ * // app/api/afloat/[...path]/route.ts
+ * const proxy = createAfloatProxy({ basePath: "/api/afloat" });
+ * export { proxy as GET, proxy as POST, proxy as PUT, proxy as PATCH, proxy as DELETE };
+ */
+export function createAfloatProxy(
+  options: AfloatProxyOptions,
+): (request: Request) => Promise<Response> {
+  const basePath = options.basePath.replace(/\/+$/, "");
+  const endpoints = options.endpoints ?? DEFAULT_PROXY_ENDPOINTS;
+
+  return async (request) => {
+    const url = new URL(request.url);
+    if (!url.pathname.startsWith(`${basePath}/`)) {
+      return jsonResponse(404, "NOT FOUND", "Not found");
+    }
+
+    const path = url.pathname.slice(basePath.length);
+    if (!isSafePath(path)) {
+      return jsonResponse(400, "BAD REQUEST", "Invalid path");
+    }
+
+    const endpoint = path.split("/")[1];
+    if (endpoint !== "session" && !endpoints.includes(endpoint)) {
+      return jsonResponse(404, "NOT FOUND", "Not found");
+    }
+
+    if (endpoint === "auth") {
+      if (PUBLIC_PROXY_AUTH_ROUTES.includes(path)) {
+        return await forward(
+          request,
+          `${path}${url.search}`,
+          undefined,
+          options,
+        );
+      }
+      if (!PROXY_AUTH_ROUTES.includes(path)) {
+        return jsonResponse(404, "NOT FOUND", "Not found");
+      }
+    }
+
+    const getHeader = (name: string) => request.headers.get(name);
+    const cookieHeader = request.headers.get("cookie");
+    const token = readSessionCookie(cookieHeader, options.cookie);
+    if (!token) {
+      return jsonResponse(401, undefined, "You are not logged in");
+    }
+
+    if (
+      options.csrf !== false &&
+      !verifyCsrfToken(request.method, getHeader, options.cookie)
+    ) {
+      return jsonResponse(403, "INVALID CSRF TOKEN", "Invalid CSRF token");
+    }
+
+    if (path === PROXY_LOGOUT_ROUTE) {
+      return logoutResponse(request.method, options.cookie);
+    }
+    if (endpoint === "session") {
+      return await sessionResponse(
+        new CookieTokenHandler(cookieHeader, options.cookie),
+        options.config,
+      );
+    }
+
+    return await forward(request, `${path}${url.search}`, token, options);
+  };
+}
+
+/**
+ * Checks that a path reaches the endpoint it names once the API decodes it: encoded slashes
+ * and backslashes, and dot segments, could otherwise lead past the endpoint allowlist.
+ */
+function isSafePath(path: string): boolean {
+  if (/%(2f|5c)/i.test(path)) return false;
+
+  return path.split("/").every((segment) => {
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(segment);
+    } catch (_) {
+      return false;
+    }
+    return decoded !== "." && decoded !== "..";
+  });
+}
+
+/**
+ * Serves the user of the session cookie, without their token.
+ */
+async function sessionResponse(
+  cookies: CookieTokenHandler,
+  config: AfloatConfigInput | undefined,
+): Promise<Response> {
+  let json: string | undefined;
+  try {
+    const auth = await AfloatAuth.initializeServer(cookies, { config });
+    json = auth.currentUser?.toJSON();
+  } catch (_) {
+    // Rejected or unverifiable token: the browser has to log in again
+  }
+  if (!json) {
+    return jsonResponse(
+      401,
+      undefined,
+      "Your session is no longer valid. Please log in again",
+    );
+  }
+
+  return Response.json({ ...JSON.parse(json), token: PROXY_SESSION_TOKEN });
+}
+
+/**
+ * Clears the session cookies, so reloading the page does not restore the session.
+ */
+function logoutResponse(
+  method: string,
+  cookie: SessionCookieOptions | undefined,
+): Response {
+  if (method.toUpperCase() !== "POST") {
+    return jsonResponse(405, "METHOD NOT ALLOWED", "Method not allowed");
+  }
+
+  const headers = new Headers();
+  for (const value of clearSessionCookies(cookie)) {
+    headers.append("set-cookie", value);
+  }
+  return new Response(null, { status: 204, headers });
+}
+
+/**
+ * Forwards a request to the API with the session's token, if any.
+ */
+async function forward(
+  request: Request,
+  path: string,
+  token: string | undefined,
+  options: AfloatProxyOptions,
+): Promise<Response> {
+  const config = resolveAfloatConfig(options.config);
+  const fetchFn = options.fetch ?? TransportContext.current.fetch ?? fetch;
+
+  const headers = new Headers(config.headers);
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = request.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+  if (token) headers.set("token", token);
+
+  const hasBody = !["GET", "HEAD"].includes(request.method.toUpperCase());
+
+  let upstream: Response;
+  try {
+    upstream = await fetchFn(`${getApiRoot(config)}${path}`, {
+      method: request.method,
+      headers,
+      body: hasBody ? await request.arrayBuffer() : undefined,
+      signal: request.signal,
+    });
+  } catch (_) {
+    return jsonResponse(
+      502,
+      "BAD GATEWAY",
+      "We could not reach the server. Please try again later",
+    );
+  }
+
+  const responseHeaders = new Headers();
+  for (const name of FORWARDED_RESPONSE_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value) responseHeaders.set(name, value);
+  }
+  return new Response(upstream.body, {
+    status: upstream.status,
+    headers: responseHeaders,
+  });
+}
+
+/**
+ * Creates a JSON error response shaped like the API's errors.
+ */
+function jsonResponse(
+  status: number,
+  error: string | undefined,
+  message: string,
+): Response {
+  return Response.json({ statusCode: status, error, message }, { status });
+}
@@ -0,0 +1,151 @@
+import { assert, assertEquals } from "@std/assert";
+import { createAfloatProxy } from "@features/proxy/handler.ts";
+import type { FetchFunction } from "@shared/transport.ts";
+
+const cookie = "afloat_token=session-token; afloat_csrf=csrf-token";
+
+/**
+ * Creates a proxy forwarding to a fake API, recording the URLs and tokens it receives.
+ */
+function fakeProxy(): {
+  proxy: (request: Request) => Promise<Response>;
+  forwarded: { url: string; token: string | null }[];
+} {
+  const forwarded: { url: string; token: string | null }[] = [];
+  const fetch: FetchFunction = (url, init) => {
+    forwarded.push({ url, token: new Headers(init?.headers).get("token") });
+    return Promise.resolve(Response.json({ ok: true }, { status: 201 }));
+  };
+  return {
+    proxy: createAfloatProxy({ basePath: "/api/afloat", fetch }),
+    forwarded,
+  };
+}
+
+/**
+ * Builds a request to the proxy.
+ */
+function proxyRequest(
+  path: string,
+  init?: { method?: string; headers?: Record<string, string> },
+): Request {
+  return new Request(`https://dashboard.example.com/api/afloat${path}`, {
+    method: init?.method ?? "GET",
+    headers: init?.headers,
+  });
+}
+
+Deno.test("createAfloatProxy rejects mutating requests without the CSRF token", async () => {
+  const { proxy, forwarded } = fakeProxy();
+
+  const missing = await proxy(
+    proxyRequest("/payout", { method: "POST", headers: { cookie } }),
+  );
+  const wrong = await proxy(proxyRequest("/payout", {
+    method: "POST",
+    headers: { cookie, "x-csrf-token": "other-token" },
+  }));
+
+  assertEquals(missing.status, 403);
+  assertEquals(wrong.status, 403);
+  assertEquals(forwarded.length, 0);
+});
+
+Deno.test("createAfloatProxy forwards mutating requests with the CSRF token", async () => {
+  const { proxy, forwarded } = fakeProxy();
+
+  const response = await proxy(proxyRequest("/payout", {
+    method: "POST",
+    headers: { cookie, "x-csrf-token": "csrf-token" },
+  }));
+
+  assertEquals(response.status, 201);
+  assertEquals(forwarded, [{
+    url: "https://api.afloat.money/v1/payout",
+    token: "session-token",
+  }]);
+});
+
+Deno.test("createAfloatProxy rejects requests without a session", async () => {
+  const { proxy, forwarded } = fakeProxy();
+
+  const response = await proxy(proxyRequest("/wallet/balance"));
+
+  assertEquals(response.status, 401);
+  assertEquals(forwarded.length, 0);
+});
+
+Deno.test("createAfloatProxy only forwards the allowed endpoints and auth routes", async () => {
+  const { proxy, forwarded } = fakeProxy();
+  const headers = { cookie, "x-csrf-token": "csrf-token" };
+
+  const unknown = await proxy(proxyRequest("/billing/invoices", { headers }));
+  const login = await proxy(
+    proxyRequest("/auth/login", { method: "POST", headers }),
+  );
+  const password = await proxy(
+    proxyRequest("/auth/password", { method: "PUT", headers }),
+  );
+
+  assertEquals(unknown.status, 404);
+  assertEquals(login.status, 404);
+  assertEquals(password.status, 201);
+  assertEquals(forwarded.map(({ url }) => url), [
+    "https://api.afloat.money/v1/auth/password",
+  ]);
+});
+
+Deno.test("createAfloatProxy forwards the forgot password routes without a token", async () => {
+  const { proxy, forwarded } = fakeProxy();
+
+  const response = await proxy(
+    proxyRequest("/auth/password/forgot", { method: "POST" }),
+  );
+
+  assertEquals(response.status, 201);
+  assertEquals(forwarded, [{
+    url: "https://api.afloat.money/v1/auth/password/forgot",
+    token: null,
+  }]);
+});
+
+Deno.test("createAfloatProxy rejects paths escaping the allowed endpoints", async () => {
+  const { proxy, forwarded } = fakeProxy();
+  const headers = { cookie, "x-csrf-token": "csrf-token" };
+
+  for (
+    const path of [
+      "/payout/..%2Fauth%2Flogin",
+      "/payout/%2e%2e%2fauth/login",
+      "/payout/..%5Cauth%5Clogin",
+      "/payout/%2e%2e/auth/login",
+    ]
+  ) {
+    const response = await proxy(
+      proxyRequest(path, { method: "POST", headers }),
+    );
+    assert(
+      response.status === 400 || response.status === 404,
+      `${path} was answered with ${response.status}`,
+    );
+  }
+  assertEquals(forwarded.length, 0);
+});
+
+Deno.test("createAfloatProxy clears the session cookies on logout", async () => {
+  const { proxy } = fakeProxy();
+
+  const withoutCsrf = await proxy(
+    proxyRequest("/session/logout", { method: "POST", headers: { cookie } }),
+  );
+  const response = await proxy(proxyRequest("/session/logout", {
+    method: "POST",
+    headers: { cookie, "x-csrf-token": "csrf-token" },
+  }));
+
+  assertEquals(withoutCsrf.status, 403);
+  assertEquals(response.status, 204);
+  const cleared = response.headers.getSetCookie();
+  assertEquals(cleared.length, 2);
+  assert(cleared.every((value) => value.includes("Max-Age=0")));
+});
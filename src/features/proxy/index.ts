@@ -0,0 +1 @@
+export * from "@features/proxy/handler.ts";
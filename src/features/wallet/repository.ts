@@ -1,14 +1,16 @@
-import { BaseRepository } from "@shared/base_repository.ts";
+import {
+  BaseRepository,
+  type BaseRepositoryArgs,
+} from "@shared/base_repository.ts";
 import { contract } from "@features/wallet/contract.ts";
 import {
   Wallet,
   type WalletSchemas,
   WalletStatementEntry,
 } from "@models/wallet/index.ts";
-import type { AfloatAuth } from "@features/auth/manager.ts";
-import { Permissions } from "@models/permission.ts";
-import { PermissionError } from "@errors/index.ts";
+import { errorFromResponse } from "@errors/index.ts";
 import type z from "zod";
+import type { RequestOptions } from "@shared/request_options.ts";
 
 /**
  * Repository class for managing wallet operations including balance checking,
@@ -21,32 +23,30 @@ export class WalletRepo extends BaseRepository<typeof contract> {
    * @param {Object} [options] - Optional configuration
    * @param {string} [options.root] - Custom API root URL
    * @param {AfloatAuth} [options.auth] - Auth instance to use
+   * @param {Transport} [options.transport] - Transport overriding the global one
+   * @param {AfloatConfigInput} [options.config] - Optional configuration overriding the global one
    */
-  constructor(props?: { root?: string; auth?: AfloatAuth }) {
-    super("wallet", contract, {
-      root: props?.root,
-      auth: props?.auth,
-    });
+  constructor(props?: BaseRepositoryArgs) {
+    super("wallet", contract, props);
   }
 
   /**
    * Retrieves the current available balance for the wallet.
+   * @param {Object} props - The balance request properties
+   * @param {string} [props.accountNo] - Optional account number to fetch the balance for
+   * @param {RequestOptions} [options] - Optional signal, timeout and idempotency key
    * @throws {PermissionError} If user lacks the ViewBalance permission
-   * @throws {Error} If the balance fetch operation fails
+   * @throws {TimeoutError} If the request takes longer than the timeout
+   * @throws {APIError} If the balance fetch operation fails
    * @returns {Promise<number>} The available balance amount
    */
-  async getBalance(props: { accountNo?: string }): Promise<number> {
-    const auth = this.getAuthForPermissionCheck();
-    const requirePerm = Permissions.Wallet.ViewBalance;
-
-    if (!auth.checkPermission(requirePerm)) {
-      throw new PermissionError({
-        message: "You are not authorized to view the account balance.",
-        requiredPermissions: [requirePerm],
-      });
-    }
+  async getBalance(
+    props: { accountNo?: string },
+    options?: RequestOptions,
+  ): Promise<number> {
+    this.requirePermissions("wallet.getBalance");
 
-    const result = await this.client.getBalance({
+    const result = await this.clientWith(options).getBalance({
       body: { accountNo: props.accountNo },
     });
 
@@ -54,24 +54,31 @@ export class WalletRepo extends BaseRepository<typeof contract> {
       return result.body.availableBalance;
     }
 
-    throw new Error("An error occured while fetching balance");
+    throw errorFromResponse(result);
   }
 
   /**
    * Retrieves all wallets associated with the current context.
-   * @throws {Error} If the wallet fetch operation fails
+   * @param {Object} [args] - Optional wallet filters
+   * @param {RequestOptions} [options] - Optional signal, timeout and idempotency key
+   * @throws {PermissionError} If user lacks both the ViewBalance and ViewStatement permissions
+   * @throws {TimeoutError} If the request takes longer than the timeout
+   * @throws {APIError} If the wallet fetch operation fails
    * @returns {Promise<Wallet[]>} Array of wallet objects
    */
   async getWallets(
     args?: z.infer<typeof WalletSchemas.walletQuery>,
+    options?: RequestOptions,
   ): Promise<Wallet[]> {
-    const result = await this.client.getWallets({ query: args });
+    this.requirePermissions("wallet.list");
+
+    const result = await this.clientWith(options).getWallets({ query: args });
 
     if (result.status === 200) {
       return result.body.map((w) => Wallet.from(w)!);
     }
 
-    throw new Error("An error occured while fetching wallets");
+    throw errorFromResponse(result);
   }
 
   /**
@@ -82,8 +89,10 @@ export class WalletRepo extends BaseRepository<typeof contract> {
    * @param {Date} props.range.startDate - Start date for the statement period
    * @param {Date} props.range.endDate - End date for the statement period
    * @param {string} [props.accountNo] - Optional account number to fetch statement for
+   * @param {RequestOptions} [options] - Optional signal, timeout and idempotency key
    * @throws {PermissionError} If user lacks the ViewStatement permission
-   * @throws {Error} If the statement fetch operation fails
+   * @throws {TimeoutError} If the request takes longer than the timeout
+   * @throws {APIError} If the statement fetch operation fails
    * @returns {Promise<WalletStatementEntry[]>} Array of statement items for the specified period
    */
   async getStatement(
@@ -91,16 +100,9 @@ export class WalletRepo extends BaseRepository<typeof contract> {
       range?: { startDate: Date; endDate: Date };
       accountNo?: string;
     },
+    options?: RequestOptions,
   ): Promise<WalletStatementEntry[]> {
-    const auth = this.getAuthForPermissionCheck();
-    const requirePerm = Permissions.Wallet.ViewStatement;
-
-    if (!auth.checkPermission(requirePerm)) {
-      throw new PermissionError({
-        message: "You are not authorized to view the statement.",
-        requiredPermissions: [requirePerm],
-      });
-    }
+    this.requirePermissions("wallet.getStatement");
 
     const now = new Date();
     const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
@@ -110,12 +112,12 @@ export class WalletRepo extends BaseRepository<typeof contract> {
       ? { startDate: props.range.startDate, endDate: props.range.endDate }
       : { startDate: monthStart, endDate: monthEnd };
     const body = { ...range, accountNo: props.accountNo };
-    const result = await this.client.getStatement({ body });
+    const result = await this.clientWith(options).getStatement({ body });
 
     if (result.status === 201) {
       return result.body.map((e) => WalletStatementEntry.from(e)!);
     }
 
-    throw new Error("An error occured while fetching statement");
+    throw errorFromResponse(result);
   }
 }
@@ -1,4 +1,5 @@
 export * from "@models/permission.ts";
+export * from "@models/permission_catalog.ts";
 export * from "@models/user/index.ts";
 export * from "@models/contact/index.ts";
 export * from "@models/payout/index.ts";
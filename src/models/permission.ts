@@ -37,6 +37,9 @@ export const Permissions = {
   Role: {
     ViewRoles: "role.findAll",
     ViewRole: "role.findById",
+    Create: "role.create",
+    Update: "role.update",
+    Delete: "role.delete",
   },
   UserManagement: {
     ViewUsers: "login.findAll",
@@ -0,0 +1,518 @@
+import { type Permission, Permissions } from "@models/permission.ts";
+
+/**
+ * Languages the catalog's texts are available in: English and Swahili.
+ */
+export type PermissionLocale = "en" | "sw";
+
+/**
+ * A text in each supported language.
+ */
+export type LocalizedText = Record<PermissionLocale, string>;
+
+/**
+ * Areas of the product permissions are grouped by, e.g. in a role editor.
+ */
+export type PermissionGroup =
+  | "profile"
+  | "contact"
+  | "payment"
+  | "payout"
+  | "transfer"
+  | "wallet"
+  | "role"
+  | "userManagement";
+
+/**
+ * How much harm granting a permission to the wrong person can do:
+ * `low` only reveals data, `medium` changes it, `high` moves money or controls access.
+ */
+export type PermissionRisk = "low" | "medium" | "high";
+
+/**
+ * Human metadata of a permission.
+ */
+export interface PermissionDefinition {
+  /** The group the permission is listed under */
+  group: PermissionGroup;
+  /** Short name, e.g. for a checkbox */
+  label: LocalizedText;
+  /** What the permission lets users do */
+  description: LocalizedText;
+  /** How sensitive the permission is */
+  risk: PermissionRisk;
+  /** Permissions it cannot be used without, e.g. listing payouts to approve them */
+  requires: Permission[];
+}
+
+/**
+ * A permission granted without the permissions it requires.
+ */
+export interface MissingPermissionDependency {
+  /** The granted permission */
+  permission: Permission;
+  /** The permissions it requires, directly or indirectly, that were not granted */
+  missing: Permission[];
+}
+
+/**
+ * Labels of the permission groups.
+ */
+export const PermissionGroups: Record<PermissionGroup, LocalizedText> = {
+  profile: { en: "Profile", sw: "Wasifu" },
+  contact: { en: "Contacts", sw: "Anwani" },
+  payment: { en: "Payments", sw: "Malipo" },
+  payout: { en: "Payouts", sw: "Malipo yanayotoka" },
+  transfer: { en: "Transfers", sw: "Uhamisho" },
+  wallet: { en: "Wallet", sw: "Pochi" },
+  role: { en: "Roles", sw: "Majukumu" },
+  userManagement: { en: "User Management", sw: "Usimamizi wa Watumiaji" },
+};
+
+/**
+ * Human metadata of every permission, e.g. to build a role editor.
+ */
+export const PermissionCatalog: Record<Permission, PermissionDefinition> = {
+  [Permissions.Profile.ViewCurrent]: {
+    group: "profile",
+    label: { en: "View own profile", sw: "Kuona wasifu wako" },
+    description: {
+      en: "View their own name, phone number and account details.",
+      sw: "Kuona jina, namba ya simu na taarifa za akaunti yake.",
+    },
+    risk: "low",
+    requires: [],
+  },
+  [Permissions.Profile.Update]: {
+    group: "profile",
+    label: { en: "Update own profile", sw: "Kusasisha wasifu wako" },
+    description: {
+      en: "Change their own profile details.",
+      sw: "Kubadilisha taarifa za wasifu wake.",
+    },
+    risk: "medium",
+    requires: [Permissions.Profile.ViewCurrent],
+  },
+  [Permissions.Contact.List]: {
+    group: "contact",
+    label: { en: "List contacts", sw: "Kuorodhesha anwani" },
+    description: {
+      en: "View the list of saved payment contacts.",
+      sw: "Kuona orodha ya anwani za malipo zilizohifadhiwa.",
+    },
+    risk: "low",
+    requires: [],
+  },
+  [Permissions.Contact.View]: {
+    group: "contact",
+    label: { en: "View contacts", sw: "Kuona anwani" },
+    description: {
+      en: "View the details of a saved contact.",
+      sw: "Kuona taarifa za anwani iliyohifadhiwa.",
+    },
+    risk: "low",
+    requires: [Permissions.Contact.List],
+  },
+  [Permissions.Contact.Create]: {
+    group: "contact",
+    label: { en: "Add contacts", sw: "Kuongeza anwani" },
+    description: {
+      en: "Save new mobile money and bank contacts.",
+      sw: "Kuhifadhi anwani mpya za pesa za simu na za benki.",
+    },
+    risk: "medium",
+    requires: [Permissions.Contact.List],
+  },
+  [Permissions.Contact.Update]: {
+    group: "contact",
+    label: { en: "Edit contacts", sw: "Kuhariri anwani" },
+    description: {
+      en: "Change the names and account numbers of saved contacts.",
+      sw: "Kubadilisha majina na namba za akaunti za anwani zilizohifadhiwa.",
+    },
+    risk: "medium",
+    requires: [Permissions.Contact.View],
+  },
+  [Permissions.Contact.Delete]: {
+    group: "contact",
+    label: { en: "Delete contacts", sw: "Kufuta anwani" },
+    description: {
+      en: "Remove saved contacts.",
+      sw: "Kuondoa anwani zilizohifadhiwa.",
+    },
+    risk: "medium",
+    requires: [Permissions.Contact.View],
+  },
+  [Permissions.Payment.List]: {
+    group: "payment",
+    label: { en: "List payments", sw: "Kuorodhesha malipo" },
+    description: {
+      en: "View the list of payments received.",
+      sw: "Kuona orodha ya malipo yaliyopokelewa.",
+    },
+    risk: "low",
+    requires: [],
+  },
+  [Permissions.Payment.View]: {
+    group: "payment",
+    label: { en: "View payments", sw: "Kuona malipo" },
+    description: {
+      en: "View the details of a payment.",
+      sw: "Kuona taarifa za malipo.",
+    },
+    risk: "low",
+    requires: [Permissions.Payment.List],
+  },
+  [Permissions.Payment.Create]: {
+    group: "payment",
+    label: { en: "Request payments", sw: "Kuomba malipo" },
+    description: {
+      en: "Create payment requests to collect money.",
+      sw: "Kutengeneza maombi ya malipo ili kukusanya pesa.",
+    },
+    risk: "medium",
+    requires: [Permissions.Payment.List],
+  },
+  [Permissions.Payout.List]: {
+    group: "payout",
+    label: { en: "List payouts", sw: "Kuorodhesha malipo yanayotoka" },
+    description: {
+      en: "View the list of payouts and their approval status.",
+      sw: "Kuona orodha ya malipo yanayotoka na hali ya idhini yake.",
+    },
+    risk: "low",
+    requires: [],
+  },
+  [Permissions.Payout.View]: {
+    group: "payout",
+    label: { en: "View payouts", sw: "Kuona malipo yanayotoka" },
+    description: {
+      en: "View the details of a payout.",
+      sw: "Kuona taarifa za malipo yanayotoka.",
+    },
+    risk: "low",
+    requires: [Permissions.Payout.List],
+  },
+  [Permissions.Payout.Create]: {
+    group: "payout",
+    label: { en: "Create payouts", sw: "Kutengeneza malipo yanayotoka" },
+    description: {
+      en: "Send money from the wallet to mobile money and bank accounts.",
+      sw:
+        "Kutuma pesa kutoka pochini kwenda akaunti za pesa za simu na za benki.",
+    },
+    risk: "high",
+    requires: [Permissions.Payout.List],
+  },
+  [Permissions.Payout.Approve]: {
+    group: "payout",
+    label: { en: "Approve payouts", sw: "Kuidhinisha malipo yanayotoka" },
+    description: {
+      en:
+        "Approve or reject payouts awaiting approval, releasing or cancelling the funds.",
+      sw:
+        "Kuidhinisha au kukataa malipo yanayosubiri idhini, kuachilia au kusitisha pesa.",
+    },
+    risk: "high",
+    requires: [Permissions.Payout.List, Permissions.Payout.View],
+  },
+  [Permissions.Transfer.List]: {
+    group: "transfer",
+    label: { en: "List transfers", sw: "Kuorodhesha uhamisho" },
+    description: {
+      en: "View the list of transfers between accounts.",
+      sw: "Kuona orodha ya uhamisho kati ya akaunti.",
+    },
+    risk: "low",
+    requires: [],
+  },
+  [Permissions.Transfer.View]: {
+    group: "transfer",
+    label: { en: "View transfers", sw: "Kuona uhamisho" },
+    description: {
+      en: "View the details of a transfer.",
+      sw: "Kuona taarifa za uhamisho.",
+    },
+    risk: "low",
+    requires: [Permissions.Transfer.List],
+  },
+  [Permissions.Transfer.Create]: {
+    group: "transfer",
+    label: { en: "Create transfers", sw: "Kutengeneza uhamisho" },
+    description: {
+      en: "Move money between accounts.",
+      sw: "Kuhamisha pesa kati ya akaunti.",
+    },
+    risk: "high",
+    requires: [Permissions.Transfer.List],
+  },
+  [Permissions.Transfer.Approve]: {
+    group: "transfer",
+    label: { en: "Approve transfers", sw: "Kuidhinisha uhamisho" },
+    description: {
+      en: "Approve or reject transfers awaiting approval.",
+      sw: "Kuidhinisha au kukataa uhamisho unaosubiri idhini.",
+    },
+    risk: "high",
+    requires: [Permissions.Transfer.List, Permissions.Transfer.View],
+  },
+  [Permissions.Wallet.ViewBalance]: {
+    group: "wallet",
+    label: { en: "View balance", sw: "Kuona salio" },
+    description: {
+      en: "View the available balance of the wallets.",
+      sw: "Kuona salio linalopatikana kwenye pochi.",
+    },
+    risk: "low",
+    requires: [],
+  },
+  [Permissions.Wallet.ViewStatement]: {
+    group: "wallet",
+    label: { en: "View statements", sw: "Kuona taarifa za miamala" },
+    description: {
+      en: "View and download the transaction statements of the wallets.",
+      sw: "Kuona na kupakua taarifa za miamala ya pochi.",
+    },
+    risk: "low",
+    requires: [],
+  },
+  [Permissions.Role.ViewRoles]: {
+    group: "role",
+    label: { en: "List roles", sw: "Kuorodhesha majukumu" },
+    description: {
+      en: "View the list of roles users can be given.",
+      sw: "Kuona orodha ya majukumu ambayo watumiaji wanaweza kupewa.",
+    },
+    risk: "low",
+    requires: [],
+  },
+  [Permissions.Role.ViewRole]: {
+    group: "role",
+    label: { en: "View roles", sw: "Kuona majukumu" },
+    description: {
+      en: "View the permissions granted by a role.",
+      sw: "Kuona ruhusa zinazotolewa na jukumu.",
+    },
+    risk: "low",
+    requires: [Permissions.Role.ViewRoles],
+  },
+  [Permissions.Role.Create]: {
+    group: "role",
+    label: { en: "Create roles", sw: "Kutengeneza majukumu" },
+    description: {
+      en: "Create custom roles and choose the permissions they grant.",
+      sw: "Kutengeneza majukumu mapya na kuchagua ruhusa zinazotolewa nayo.",
+    },
+    risk: "high",
+    requires: [Permissions.Role.ViewRoles],
+  },
+  [Permissions.Role.Update]: {
+    group: "role",
+    label: { en: "Edit roles", sw: "Kuhariri majukumu" },
+    description: {
+      en: "Rename roles and change the permissions they grant.",
+      sw: "Kubadilisha majina ya majukumu na ruhusa zinazotolewa nayo.",
+    },
+    risk: "high",
+    requires: [Permissions.Role.ViewRole],
+  },
+  [Permissions.Role.Delete]: {
+    group: "role",
+    label: { en: "Delete roles", sw: "Kufuta majukumu" },
+    description: {
+      en: "Delete roles no user is assigned to.",
+      sw: "Kufuta majukumu ambayo hayajapewa mtumiaji yeyote.",
+    },
+    risk: "high",
+    requires: [Permissions.Role.ViewRole],
+  },
+  [Permissions.UserManagement.ViewUsers]: {
+    group: "userManagement",
+    label: { en: "List users", sw: "Kuorodhesha watumiaji" },
+    description: {
+      en: "View the list of user accounts.",
+      sw: "Kuona orodha ya akaunti za watumiaji.",
+    },
+    risk: "low",
+    requires: [],
+  },
+  [Permissions.UserManagement.ViewUser]: {
+    group: "userManagement",
+    label: { en: "View users", sw: "Kuona watumiaji" },
+    description: {
+      en: "View the details and role of a user account.",
+      sw: "Kuona taarifa na jukumu la akaunti ya mtumiaji.",
+    },
+    risk: "low",
+    requires: [Permissions.UserManagement.ViewUsers],
+  },
+  [Permissions.UserManagement.CreateUser]: {
+    group: "userManagement",
+    label: { en: "Create users", sw: "Kuongeza watumiaji" },
+    description: {
+      en: "Create user accounts and choose their role.",
+      sw: "Kutengeneza akaunti za watumiaji na kuchagua majukumu yao.",
+    },
+    risk: "high",
+    requires: [
+      Permissions.UserManagement.ViewUsers,
+      Permissions.Role.ViewRoles,
+    ],
+  },
+  [Permissions.UserManagement.UpdateUser]: {
+    group: "userManagement",
+    label: { en: "Edit users", sw: "Kuhariri watumiaji" },
+    description: {
+      en: "Change the details and role of user accounts.",
+      sw: "Kubadilisha taarifa na majukumu ya akaunti za watumiaji.",
+    },
+    risk: "high",
+    requires: [Permissions.UserManagement.ViewUser, Permissions.Role.ViewRoles],
+  },
+  [Permissions.UserManagement.ArchiveUser]: {
+    group: "userManagement",
+    label: { en: "Archive users", sw: "Kusimamisha watumiaji" },
+    description: {
+      en: "Deactivate user accounts, so they can no longer log in.",
+      sw: "Kusimamisha akaunti za watumiaji, ili wasiweze kuingia tena.",
+    },
+    risk: "high",
+    requires: [Permissions.UserManagement.ViewUser],
+  },
+  [Permissions.UserManagement.UnArchiveUser]: {
+    group: "userManagement",
+    label: { en: "Restore users", sw: "Kurejesha watumiaji" },
+    description: {
+      en: "Reactivate archived user accounts.",
+      sw: "Kuamsha tena akaunti za watumiaji zilizosimamishwa.",
+    },
+    risk: "high",
+    requires: [Permissions.UserManagement.ViewUser],
+  },
+  [Permissions.UserManagement.ResetPassword]: {
+    group: "userManagement",
+    label: { en: "Reset passwords", sw: "Kuweka upya nywila" },
+    description: {
+      en: "Reset the passwords of other users.",
+      sw: "Kuweka upya nywila za watumiaji wengine.",
+    },
+    risk: "high",
+    requires: [Permissions.UserManagement.ViewUser],
+  },
+};
+
+/**
+ * Gets the metadata of a permission.
+ *
+ * @param {string} permission - The permission, e.g. from `Role.permissions`
+ * @returns {PermissionDefinition | undefined} Its metadata, or undefined for permissions
+ * unknown to this version of the SDK
+ */
+export function getPermissionDefinition(
+  permission: string,
+): PermissionDefinition | undefined {
+  return isKnownPermission(permission)
+    ? PermissionCatalog[permission]
+    : undefined;
+}
+
+/**
+ * Gets the label of a permission in a language.
+ *
+ * @param {string} permission - The permission
+ * @param {PermissionLocale} [locale] - The language. Defaults to English
+ * @returns {string} The label, or the permission itself when it is unknown
+ */
+export function permissionLabel(
+  permission: string,
+  locale: PermissionLocale = "en",
+): string {
+  return getPermissionDefinition(permission)?.label[locale] ?? permission;
+}
+
+/**
+ * Lists the permissions of each group, in catalog order.
+ *
+ * @returns {Record<PermissionGroup, Permission[]>} The permissions by group
+ */
+export function permissionsByGroup(): Record<PermissionGroup, Permission[]> {
+  const groups = Object.fromEntries(
+    Object.keys(PermissionGroups).map((group) => [group, []]),
+  ) as unknown as Record<PermissionGroup, Permission[]>;
+
+  for (const permission of Object.keys(PermissionCatalog) as Permission[]) {
+    groups[PermissionCatalog[permission].group].push(permission);
+  }
+  return groups;
+}
+
+/**
+ * Lists every permission a permission requires, directly or through other permissions.
+ *
+ * @param {Permission} permission - The permission
+ * @returns {Permission[]} Its dependencies, without the permission itself
+ */
+export function permissionDependencies(permission: Permission): Permission[] {
+  const found = new Set<Permission>();
+  const pending = [...PermissionCatalog[permission].requires];
+
+  while (pending.length > 0) {
+    const next = pending.pop() as Permission;
+    if (next === permission || found.has(next)) continue;
+    found.add(next);
+    pending.push(...PermissionCatalog[next].requires);
+  }
+  return [...found];
+}
+
+/**
+ * Finds the permissions of a set granted without the permissions they require,
+ * e.g. to warn in a role editor before saving. Unknown permissions are ignored.
+ *
+ * @param {Iterable<string>} permissions - The permission set, e.g. `Role.permissions`
+ * @returns {MissingPermissionDependency[]} The incomplete permissions, empty if the set is valid
+ *
+ * @example
+ * findMissingDependencies([Permissions.Payout.Approve]);
+ * // [{ permission: "payout.approve", missing: ["payout.findAll", "payout.findById"] }]
+ */
+export function findMissingDependencies(
+  permissions: Iterable<string>,
+): MissingPermissionDependency[] {
+  const granted = new Set<string>(permissions);
+  const result: MissingPermissionDependency[] = [];
+
+  for (const permission of granted) {
+    if (!isKnownPermission(permission)) continue;
+
+    const missing = permissionDependencies(permission).filter((dependency) =>
+      !granted.has(dependency)
+    );
+    if (missing.length > 0) result.push({ permission, missing });
+  }
+  return result;
+}
+
+/**
+ * Completes a permission set with the permissions its members require,
+ * e.g. to tick dependencies automatically in a role editor.
+ *
+ * @param {Iterable<string>} permissions - The permission set
+ * @returns {string[]} The set and its missing dependencies
+ */
+export function withPermissionDependencies(
+  permissions: Iterable<string>,
+): string[] {
+  const completed = new Set<string>(permissions);
+  for (const { missing } of findMissingDependencies(completed)) {
+    missing.forEach((dependency) => completed.add(dependency));
+  }
+  return [...completed];
+}
+
+/**
+ * Checks whether a string is a permission of the catalog.
+ */
+function isKnownPermission(permission: string): permission is Permission {
+  return Object.hasOwn(PermissionCatalog, permission);
+}
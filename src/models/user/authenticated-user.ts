@@ -1,6 +1,7 @@
 // deno-lint-ignore-file no-explicit-any
-import { Permissions } from "@models/permission.ts";
+import { type Permission, Permissions } from "@models/permission.ts";
 import { Profile } from "@models/user/profile.ts";
+import { decodeTokenExpiry, parseExpiry } from "@models/user/token_expiry.ts";
 
 /**
  * Represents a user in Afloat.
@@ -38,6 +39,12 @@ export class User {
    */
   public resetPassword: boolean;
 
+  /**
+   * When the token expires, if known: taken from the login response,
+   * or decoded from the token when it carries its expiry.
+   */
+  public expiresAt?: Date;
+
   /**
    * A map of permission keys to boolean values, indicating whether the user has access
    * to specific actions or features in the system.
@@ -48,7 +55,7 @@ export class User {
    * Creates a new instance of the `User` class.
    *
    * @param userData - An object containing the user's profile, token,
-   * permissions (access list), and the `resetPassword` flag.
+   * permissions (access list), the `resetPassword` flag and the token's expiry, if known.
    */
   private constructor(data: {
     profile: Profile;
@@ -57,6 +64,7 @@ export class User {
     resetPassword: boolean;
     name: string;
     identity: string;
+    expiresAt?: Date;
   }) {
     const { profile, token, access, resetPassword, name, identity } = data;
 
@@ -65,6 +73,7 @@ export class User {
     this.resetPassword = resetPassword;
     this.name = name;
     this.identity = identity;
+    this.expiresAt = data.expiresAt ?? decodeTokenExpiry(token);
 
     this.permissionsMap = {};
     for (const group of Object.values(Permissions)) {
@@ -74,6 +83,17 @@ export class User {
     }
   }
   
+  /**
+   * Gets the permissions the user has.
+   *
+   * @returns The permission keys the user has.
+   */
+  public get permissions(): Permission[] {
+    return Object.keys(this.permissionsMap).filter(
+      (key) => this.permissionsMap[key],
+    ) as Permission[];
+  }
+
   /**
    * Checks if the user has a specific permission.
    *
@@ -92,6 +112,7 @@ export class User {
    * - `token`: The user's authentication token.
    * - `resetPassword`: Indicates whether the user must reset their password.
    * - `permissions`: An array of permission keys the user has.
+   * - `expiresAt`: The token's expiry as an ISO date string, if known.
    */
   public toJSON(): string {
     return JSON.stringify({
@@ -100,9 +121,8 @@ export class User {
       resetPassword: this.resetPassword,
       name: this.name,
       identity: this.identity,
-      permissions: Object.keys(this.permissionsMap).filter(
-        (key) => this.permissionsMap[key],
-      ),
+      expiresAt: this.expiresAt?.toISOString(),
+      permissions: this.permissions,
     });
   }
 
@@ -215,6 +235,7 @@ export class User {
       resetPassword: parsedData.resetPassword,
       name: parsedData.name,
       identity: parsedData.identity,
+      expiresAt: parseExpiry(parsedData.expiresAt),
     };
 
     return new User(args);
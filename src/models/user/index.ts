@@ -1,3 +1,4 @@
 export * from "@models/user/profile.ts";
 export * from "@models/user/authenticated-user.ts";
 export * from "@models/user/managed-user.ts";
+export * from "@models/user/token_expiry.ts";
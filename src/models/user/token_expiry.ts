@@ -0,0 +1,43 @@
+/**
+ * Reads the expiry of a token carrying one, i.e. a JWT with an `exp` claim.
+ * The signature is not verified: the expiry is only used to anticipate it.
+ *
+ * @param {string} token - The token to decode
+ * @returns {Date | undefined} The expiry date, or undefined for opaque tokens
+ *
+ * @example
+ * decodeTokenExpiry(user.token)?.toISOString(); // "2025-01-01T12:00:00.000Z"
+ */
+export function decodeTokenExpiry(token: string): Date | undefined {
+  const payload = token.split(".")[1];
+  if (!payload) return undefined;
+
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, "=");
+    const claims = JSON.parse(atob(padded));
+
+    if (typeof claims?.exp !== "number") return undefined;
+    return new Date(claims.exp * 1000);
+  } catch (_) {
+    return undefined;
+  }
+}
+
+/**
+ * Parses an expiry given as a `Date`, an ISO date string or milliseconds since the epoch.
+ *
+ * @param {unknown} value - The value to parse
+ * @returns {Date | undefined} The expiry date, or undefined if the value is not a valid date
+ */
+export function parseExpiry(value: unknown): Date | undefined {
+  if (
+    !(value instanceof Date) && typeof value !== "string" &&
+    typeof value !== "number"
+  ) {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
@@ -1,9 +1,49 @@
-import { type AppRouter, initClient } from "@ts-rest/core";
-import { APIError } from "@errors/api_error.ts";
-import { v4 as uuidv4 } from "uuid";
-import type { InitClientArgs } from "@ts-rest/core";
-import type { Common400APIResponse } from "@shared/index.ts";
+import {
+  type AppRouter,
+  initClient,
+  type InitClientArgs,
+  type InitClientReturn,
+} from "@ts-rest/core";
+import {
+  errorFromResponse,
+  PasswordChangeRequiredError,
+} from "@errors/http_errors.ts";
 import { AfloatAuth, AuthContext } from "@features/auth/manager.ts";
+import { getScopedAuth } from "@features/auth/scope.ts";
+import type { StepUpOperation } from "@features/auth/step_up.ts";
+import {
+  missingPermissions,
+  OperationPermissions,
+  type RepositoryOperation,
+} from "@features/auth/operations.ts";
+import { StepUpRequiredError } from "@errors/step_up_error.ts";
+import { PermissionError } from "@errors/permission_error.ts";
+import type { Transport } from "@shared/transport.ts";
+import {
+  type AfloatConfig,
+  type AfloatConfigInput,
+  resolveAfloatConfig,
+} from "@shared/config.ts";
+import { createClientArgs } from "@shared/request_pipeline.ts";
+import type { Interceptor } from "@shared/interceptors.ts";
+import type { RequestOptions } from "@shared/request_options.ts";
+import { v4 as uuidv4 } from "uuid";
+
+/**
+ * Optional constructor arguments shared by all repositories.
+ */
+export interface BaseRepositoryArgs {
+  /** Optional API root URL */
+  root?: string;
+  /** Optional auth instance to use */
+  auth?: AfloatAuth;
+  /** Optional transport overriding the globally configured one */
+  transport?: Transport;
+  /** Optional configuration overriding the global one */
+  config?: AfloatConfigInput;
+  /** Optional interceptors run around requests, after the global ones */
+  interceptors?: Interceptor[];
+}
 
 /**
  * BaseRepository
@@ -37,12 +77,43 @@ export class BaseRepository<TContract extends AppRouter> {
   protected root: string | undefined;
 
   /**
-   * The auth instance to use for authentication
+   * The auth instance to use for authentication: the one passed to the constructor,
+   * or the one of the `runWithAuth` scope the repository was created in.
+   * When undefined, `AuthContext.current` is resolved on every request.
    * 
    * @protected
    */
   protected auth: AfloatAuth | undefined;
 
+  /**
+   * The transport overriding the globally configured one
+   *
+   * @protected
+   */
+  protected transport: Transport | undefined;
+
+  /**
+   * Configuration overriding the global one
+   *
+   * @protected
+   */
+  protected configOverrides: AfloatConfigInput | undefined;
+
+  /**
+   * Interceptors run around this repository's requests, after the global ones
+   *
+   * @protected
+   */
+  protected interceptors: Interceptor[];
+
+  /**
+   * Whether this repository can be used while the user must change their password.
+   * Only the auth repository, which changes it, opts in.
+   *
+   * @protected
+   */
+  protected allowedDuringPasswordChange = false;
+
   /**
    * Constructs a new instance of `BaseRepository`.
    *
@@ -51,17 +122,24 @@ export class BaseRepository<TContract extends AppRouter> {
    * @param args - Optional constructor arguments
    * @param args.root - Optional API root URL
    * @param args.auth - Optional auth instance to use
+   * @param args.transport - Optional transport overriding the global one
+   * @param args.config - Optional configuration overriding the global one
+   * @param args.interceptors - Optional interceptors run around requests
    */
-  constructor(endpoint: string, contract: TContract, args?: { 
-    root?: string;
-    auth?: AfloatAuth;
-  }) {
+  constructor(
+    endpoint: string,
+    contract: TContract,
+    args?: BaseRepositoryArgs,
+  ) {
     this.contract = contract;
     this.endpoint = endpoint;
     this.root = args?.root;
+    this.transport = args?.transport;
+    this.configOverrides = args?.config;
+    this.interceptors = args?.interceptors ?? [];
     
-    // Use provided auth or try to get the current context
-    this.auth = args?.auth || AuthContext.current;
+    // Use provided auth or the one of the current request scope
+    this.auth = args?.auth || getScopedAuth();
   }
 
   /**
@@ -88,70 +166,192 @@ export class BaseRepository<TContract extends AppRouter> {
     return auth;
   }
 
+  /**
+   * Ensures the user has the permissions an operation requires,
+   * as declared in `OperationPermissions`.
+   *
+   * @protected
+   * @param operation - The operation about to be called
+   * @throws {PasswordChangeRequiredError} If the user must change their password first,
+   * unless the repository allows it. Checked before the permissions.
+   * @throws {PermissionError} If the user lacks the operation's permissions,
+   * listing the missing ones
+   */
+  protected requirePermissions(operation: RepositoryOperation): void {
+    const auth = this.getAuthForPermissionCheck();
+    this.assertPasswordChangeNotRequired(auth);
+
+    const missing = missingPermissions(
+      operation,
+      (perm) => auth.checkPermission(perm),
+    );
+
+    if (missing.length > 0) {
+      throw new PermissionError({
+        message: OperationPermissions[operation].message,
+        requiredPermissions: missing,
+      });
+    }
+  }
+
+  /**
+   * Ensures the user is not flagged for a password change, during which they may only
+   * change their password.
+   *
+   * @private
+   * @throws {PasswordChangeRequiredError} If they are, unless the repository allows it
+   */
+  private assertPasswordChangeNotRequired(auth: AfloatAuth | undefined): void {
+    if (
+      !this.allowedDuringPasswordChange &&
+      auth?.sessionState === "passwordChangeRequired"
+    ) {
+      throw new PasswordChangeRequiredError();
+    }
+  }
+
+  /**
+   * Runs a sensitive operation, unless the user must confirm their identity first
+   * (see `AfloatAuth.configureStepUp`).
+   *
+   * @protected
+   * @param operation - The sensitive operation, looked up in the step-up options
+   * @param run - Sends the operation's request
+   * @returns The result of `run`
+   * @throws {StepUpRequiredError} If the user has not re-authenticated recently enough.
+   * Its `retry` runs the operation again.
+   */
+  protected withStepUp<T>(
+    operation: StepUpOperation,
+    run: () => Promise<T>,
+  ): Promise<T> {
+    const maxAgeMs = this.getAuthForPermissionCheck().stepUpRequiredFor(
+      operation,
+    );
+    if (maxAgeMs === undefined) return run();
+
+    return Promise.reject(
+      new StepUpRequiredError<T>({
+        operation,
+        maxAgeMs,
+        retry: () => this.withStepUp(operation, run),
+      }),
+    );
+  }
+
+  /**
+   * Gets the configuration this repository sends requests with:
+   * the global configuration, overridden by the auth instance's and then the repository's own.
+   */
+  get config(): AfloatConfig {
+    const auth = this.auth || AuthContext.current;
+    return resolveAfloatConfig(auth?.config, this.configOverrides);
+  }
+
   /**
    * Gets the initialized client for making API requests.
    * Uses authentication token if available.
    */
-  get client() {
-    const baseUrl = this.root
-      ? `${this.root}/${this.endpoint}`
-      : `https://api.afloat.money/v1/${this.endpoint}`;
+  get client(): InitClientReturn<TContract, InitClientArgs> {
+    return this.clientWith();
+  }
 
+  /**
+   * Gets an initialized client whose requests apply the given per-call options.
+   * Uses authentication token if available.
+   *
+   * @throws {PasswordChangeRequiredError} If the user must change their password first,
+   * unless the repository allows it
+   * @param options - Optional signal, timeout and idempotency key
+   */
+  protected clientWith(
+    options?: RequestOptions,
+  ): InitClientReturn<TContract, InitClientArgs> {
     let token = "";
+    let auth = this.auth || AuthContext.current;
     
     // Try to get token from the provided auth instance
-    if (this.auth) {
-      token = this.auth.getUserToken() ?? "";
+    if (auth) {
+      token = auth.getUserToken() ?? "";
     } 
     // Fall back to singleton if no auth was provided, but handle exceptions
     // that occur in server environments
     else {
       try {
-        token = AfloatAuth.instance.getUserToken() ?? "";
+        auth = AfloatAuth.instance;
+        token = auth.getUserToken() ?? "";
       } catch (_) {
         // This will fail when called within the server without initialization
         // We'll proceed with an empty token
       }
     }
 
-    const args: InitClientArgs = {
-      baseUrl,
-      baseHeaders: {
-        "token": token,
-        "x-request-id": uuidv4(),
+    this.assertPasswordChangeNotRequired(auth);
+
+    // Let the auth instance expire the session when the token is rejected
+    const sessionGuard: Interceptor = {
+      onResponse: ({ status }) => {
+        if (status === 401 && token) auth?.handleUnauthorized(token);
       },
     };
 
+    const args = createClientArgs({
+      endpoint: this.endpoint,
+      token,
+      root: this.root,
+      transport: this.transport,
+      interceptors: [...this.interceptors, sessionGuard],
+      config: this.config,
+      request: options,
+    });
+
     return initClient(this.contract, args);
   }
 
+  /**
+   * Gives a call's options an idempotency key, unless the caller passed one.
+   * Call it once per repository call, so retries, including `StepUpRequiredError.retry`,
+   * send the same key. Only use it for endpoints deduplicating on the key: mutating
+   * requests carrying one are retried.
+   *
+   * @param options - The call's options
+   * @returns The options with an idempotency key
+   */
+  protected withIdempotencyKey(options?: RequestOptions): RequestOptions {
+    return { ...options, idempotencyKey: options?.idempotencyKey ?? uuidv4() };
+  }
+
+  /**
+   * Adds an interceptor run around this repository's requests.
+   *
+   * @param interceptor - The interceptor to add
+   * @returns This repository, for chaining
+   */
+  use(interceptor: Interceptor): this {
+    this.interceptors.push(interceptor);
+    return this;
+  }
+
   /**
    * Handles the API response by checking the HTTP status code and returning the response body
-   * for successful requests or throwing an `APIError` for errors.
+   * for successful requests or throwing the `APIError` subclass matching the status code
+   * for errors.
    *
    * @template T - The expected type of the successful response body.
    * @param result - The API response object containing the status code and response body.
    * @param successStatusCode - The expected HTTP status code indicating success (e.g., 200, 201).
    * @returns The response body typed as `T` if the status code matches the success criteria.
-   * @throws `APIError` - If the status code indicates a failure.
+   * @throws `APIError` - If the status code indicates a failure, e.g. a `NotFoundError` for 404,
+   * carrying the request's `x-request-id`.
    */
   handleResponse<T>(
-    result: { status: number; body: unknown },
+    result: { status: number; body: unknown; headers?: Headers },
     successStatusCode: number,
   ): T {
     if (successStatusCode === result.status) {
       return result.body as T;
     }
 
-    if (result.status === 400) {
-      throw new APIError(result.body as Common400APIResponse);
-    }
-
-    throw new APIError({
-      message:
-        "We encountered an error trying to process your request. Please try again later",
-      statusCode: 520,
-      error: "UNKNOWN ERROR",
-    });
+    throw errorFromResponse(result);
   }
 }
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { DEFAULT_API_ROOT } from "@shared/transport.ts";
+import { DEFAULT_RETRY_POLICY, type RetryPolicy } from "@shared/retry.ts";
+
+/**
+ * Named Afloat environments.
+ */
+export type AfloatEnvironment = "production" | "sandbox" | "local";
+
+/**
+ * Default API root URL of each Afloat environment.
+ * Only production has one: set the others with `configureAfloat({ apiRoots })`.
+ */
+export const AFLOAT_API_ROOTS: Partial<Record<AfloatEnvironment, string>> = {
+  production: DEFAULT_API_ROOT,
+};
+
+/**
+ * SDK-wide configuration read by `AfloatAuth` and every repository.
+ */
+export interface AfloatConfig {
+  /** The environment requests are sent to */
+  environment: AfloatEnvironment;
+
+  /** API root URL of each environment */
+  apiRoots: Partial<Record<AfloatEnvironment, string>>;
+
+  /** Time in milliseconds after which a request is aborted. Requests never time out when undefined */
+  timeoutMs?: number;
+
+  /** Headers sent with every request */
+  headers: Record<string, string>;
+
+  /** When and how failed requests are retried */
+  retry: RetryPolicy;
+}
+
+/**
+ * A partial configuration, merged on top of the current one.
+ */
+export type AfloatConfigInput =
+  & Partial<Omit<AfloatConfig, "retry">>
+  & {
+    retry?: Partial<RetryPolicy>;
+  };
+
+/** Configuration used when nothing has been configured */
+export const DEFAULT_AFLOAT_CONFIG: AfloatConfig = {
+  environment: "production",
+  apiRoots: AFLOAT_API_ROOTS,
+  headers: {},
+  retry: DEFAULT_RETRY_POLICY,
+};
+
+/**
+ * Global configuration shared by the whole SDK.
+ */
+export const ConfigContext = {
+  current: DEFAULT_AFLOAT_CONFIG,
+};
+
+/**
+ * Updates the global SDK configuration.
+ * Fields not provided keep their previously configured values.
+ *
+ * @param {AfloatConfigInput} config - Configuration fields to set
+ *
+ * @example
+ * configureAfloat({
+ *   environment: "sandbox",
+ *   apiRoots: { sandbox: "https://sandbox.example.com/v1" },
+ *   timeoutMs: 10_000,
+ * });
+ */
+export function configureAfloat(config: AfloatConfigInput): void {
+  ConfigContext.current = mergeConfig(ConfigContext.current, config);
+}
+
+/**
+ * Restores the global SDK configuration to its defaults.
+ */
+export function resetAfloatConfig(): void {
+  ConfigContext.current = DEFAULT_AFLOAT_CONFIG;
+}
+
+/**
+ * Resolves the configuration to use by applying the given overrides,
+ * in order, on top of the global configuration.
+ *
+ * @param {...(AfloatConfigInput | undefined)} overrides - Partial configurations to apply
+ * @returns {AfloatConfig} The resolved configuration
+ */
+export function resolveAfloatConfig(
+  ...overrides: (AfloatConfigInput | undefined)[]
+): AfloatConfig {
+  return overrides.reduce<AfloatConfig>(
+    (config, override) => override ? mergeConfig(config, override) : config,
+    ConfigContext.current,
+  );
+}
+
+/**
+ * Gets the API root URL of the configured environment.
+ *
+ * @param {AfloatConfig} config - A resolved configuration
+ * @returns {string} The API root URL
+ * @throws {Error} If no API root is configured for the environment
+ */
+export function getApiRoot(config: AfloatConfig): string {
+  const root = config.apiRoots[config.environment];
+  if (!root) {
+    throw new Error(
+      `No API root configured for the "${config.environment}" environment; set it with configureAfloat({ apiRoots })`,
+    );
+  }
+  return root;
+}
+
+/**
+ * Merges a partial configuration into a complete one.
+ */
+function mergeConfig(
+  config: AfloatConfig,
+  input: AfloatConfigInput,
+): AfloatConfig {
+  return {
+    environment: input.environment ?? config.environment,
+    apiRoots: { ...config.apiRoots, ...input.apiRoots },
+    timeoutMs: input.timeoutMs ?? config.timeoutMs,
+    headers: { ...config.headers, ...input.headers },
+    retry: { ...config.retry, ...input.retry },
+  };
+}
@@ -1,2 +1,7 @@
 export * from "@shared/common_responses.ts";
 export * from "@shared/base_repository.ts";
+export * from "@shared/transport.ts";
+export * from "@shared/config.ts";
+export * from "@shared/retry.ts";
+export * from "@shared/interceptors.ts";
+export * from "@shared/request_options.ts";
@@ -0,0 +1,182 @@
+import type { ApiFetcher } from "@ts-rest/core";
+import { v4 as uuidv4 } from "uuid";
+import { errorFromResponse } from "@errors/http_errors.ts";
+
+/** Header carrying the unique identifier of each request */
+export const REQUEST_ID_HEADER = "x-request-id";
+
+/**
+ * A request about to be sent to the Afloat API.
+ * Interceptors may change `path` and `headers` in place.
+ */
+export interface InterceptedRequest {
+  /** Unique identifier of the request, also sent in the `x-request-id` header */
+  readonly requestId: string;
+  /** HTTP method */
+  readonly method: string;
+  /** Full request URL, including the query string */
+  path: string;
+  /** Request headers */
+  headers: Record<string, string>;
+  /** Request body, before serialization */
+  readonly body: unknown;
+  /** Time the request started, in milliseconds since the epoch */
+  readonly startedAt: number;
+}
+
+/**
+ * A response received from the Afloat API, whatever its status code.
+ */
+export interface InterceptedResponse {
+  /** The request this response answers */
+  readonly request: InterceptedRequest;
+  /** HTTP status code */
+  readonly status: number;
+  /** Decoded response body */
+  readonly body: unknown;
+  /** Response headers */
+  readonly headers: Headers;
+  /** Time taken by the request, retries included, in milliseconds */
+  readonly durationMs: number;
+}
+
+/**
+ * Hooks run around every request made by repositories.
+ */
+export interface Interceptor {
+  /**
+   * Runs before the request is sent, e.g. to add headers.
+   */
+  onRequest?(request: InterceptedRequest): void | Promise<void>;
+
+  /**
+   * Runs after a response is received, e.g. to log or measure latency.
+   */
+  onResponse?(response: InterceptedResponse): void | Promise<void>;
+
+  /**
+   * Runs when the request fails: with the `APIError` matching the status code of an error
+   * response (4xx or 5xx), or when the request could not be completed (network failure,
+   * timeout, cancellation).
+   * Returning a value replaces the error that is thrown. Error responses whose error is not
+   * replaced are left to the repository, which throws its own error for the status code.
+   */
+  onError?(
+    error: unknown,
+    request: InterceptedRequest,
+  ): unknown | Promise<unknown>;
+}
+
+/**
+ * Global interceptors, run for every repository before the repository's own.
+ */
+export const InterceptorContext = {
+  current: [] as Interceptor[],
+};
+
+/**
+ * Registers an interceptor run for every repository.
+ *
+ * @param {Interceptor} interceptor - The interceptor to register
+ * @returns {() => void} A function removing the interceptor
+ *
+ * @example
+ * const remove = addInterceptor({
+ *   onResponse: ({ request, status, durationMs }) =>
+ *     console.log(request.requestId, status, `${durationMs}ms`),
+ * });
+ */
+export function addInterceptor(interceptor: Interceptor): () => void {
+  InterceptorContext.current = [...InterceptorContext.current, interceptor];
+
+  return () => {
+    InterceptorContext.current = InterceptorContext.current.filter(
+      (current) => current !== interceptor,
+    );
+  };
+}
+
+/**
+ * Wraps a fetcher so that the global interceptors, then the given ones,
+ * run around every request.
+ *
+ * Every request is given an `x-request-id` header (unless the caller set one),
+ * which is also added to the response headers so it can be reported in errors.
+ * Error responses are passed to `onError` as the `APIError` matching their status code.
+ *
+ * @param {ApiFetcher} fetcher - The fetcher to wrap
+ * @param {Interceptor[]} [interceptors] - Interceptors run after the global ones
+ * @returns {ApiFetcher} The intercepted fetcher
+ */
+export function withInterceptors(
+  fetcher: ApiFetcher,
+  interceptors: Interceptor[] = [],
+): ApiFetcher {
+  return async (args) => {
+    const chain = [...InterceptorContext.current, ...interceptors];
+    const requestId = args.headers[REQUEST_ID_HEADER] ?? uuidv4();
+    const request: InterceptedRequest = {
+      requestId,
+      method: args.method,
+      path: args.path,
+      headers: { ...args.headers, [REQUEST_ID_HEADER]: requestId },
+      body: args.rawBody,
+      startedAt: Date.now(),
+    };
+
+    for (const interceptor of chain) await interceptor.onRequest?.(request);
+
+    let response: Awaited<ReturnType<ApiFetcher>>;
+    try {
+      response = await fetcher({
+        ...args,
+        path: request.path,
+        headers: request.headers,
+      });
+    } catch (error) {
+      throw await runOnError(chain, error, request);
+    }
+
+    const headers = new Headers(response.headers);
+    if (!headers.has(REQUEST_ID_HEADER)) {
+      headers.set(REQUEST_ID_HEADER, requestId);
+    }
+
+    const intercepted: InterceptedResponse = {
+      request,
+      status: response.status,
+      body: response.body,
+      headers,
+      durationMs: Date.now() - request.startedAt,
+    };
+    for (const interceptor of chain) {
+      await interceptor.onResponse?.(intercepted);
+    }
+
+    if (response.status >= 400) {
+      const error = errorFromResponse({ ...response, headers });
+      const replacement = await runOnError(chain, error, request);
+      if (replacement !== error) throw replacement;
+    }
+
+    return { ...response, headers };
+  };
+}
+
+/**
+ * Passes an error through the `onError` hooks of a chain of interceptors.
+ *
+ * @returns The error to throw: the last replacement returned, or the original error
+ */
+async function runOnError(
+  chain: Interceptor[],
+  error: unknown,
+  request: InterceptedRequest,
+): Promise<unknown> {
+  let thrown = error;
+  for (const interceptor of chain) {
+    const replacement = await interceptor.onError?.(thrown, request);
+    if (replacement !== undefined) thrown = replacement;
+  }
+  return thrown;
+}
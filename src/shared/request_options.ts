@@ -0,0 +1,23 @@
+/**
+ * Per-call options accepted by every repository method.
+ */
+export interface RequestOptions {
+  /**
+   * Signal cancelling the request, e.g. when the user navigates away.
+   * A cancelled request rejects with the signal's reason and is not retried.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Time in milliseconds after which each attempt is aborted with a `TimeoutError`.
+   * Defaults to the configured `timeoutMs`; requests never time out when neither is set.
+   */
+  timeoutMs?: number;
+
+  /**
+   * Idempotency key sent with the request, unchanged across retries.
+   * Mutating requests are only retried when they carry one, so only pass it to endpoints
+   * deduplicating on it. Payout calls generate it when not provided.
+   */
+  idempotencyKey?: string;
+}
@@ -0,0 +1,150 @@
+import type { ApiFetcher, InitClientArgs } from "@ts-rest/core";
+import { APIError } from "@errors/api_error.ts";
+import { NetworkError } from "@errors/http_errors.ts";
+import { TimeoutError } from "@errors/timeout_error.ts";
+import { type AfloatConfig, getApiRoot } from "@shared/config.ts";
+import { resolveTransport, type Transport } from "@shared/transport.ts";
+import { IDEMPOTENCY_KEY_HEADER, withRetries } from "@shared/retry.ts";
+import type { RequestOptions } from "@shared/request_options.ts";
+import {
+  CSRF_HEADER,
+  readCsrfCookie,
+} from "@features/auth/storage/session_cookie.ts";
+import {
+  type Interceptor,
+  REQUEST_ID_HEADER,
+  withInterceptors,
+} from "@shared/interceptors.ts";
+
+/**
+ * Everything needed to build the "ts-rest" client of a repository.
+ */
+export interface ClientOptions {
+  /** API endpoint, appended to the API root URL */
+  endpoint: string;
+  /** Authentication token sent in the `token` header, unless the transport is a proxy */
+  token: string;
+  /** Optional API root URL, taking precedence over the transport */
+  root?: string;
+  /** Optional transport overriding the global one */
+  transport?: Transport;
+  /** The resolved SDK configuration */
+  config: AfloatConfig;
+  /** Optional interceptors run after the global ones */
+  interceptors?: Interceptor[];
+  /** Optional per-call options applied to every request of the client */
+  request?: RequestOptions;
+}
+
+/**
+ * Builds the "ts-rest" client arguments shared by all repositories.
+ *
+ * Requests go through, from outermost to innermost: the per-call options,
+ * the interceptors, the retry policy, the request timeout, then the transport.
+ *
+ * @param {ClientOptions} options - The client options
+ * @returns {InitClientArgs} Arguments for `initClient`
+ */
+export function createClientArgs(options: ClientOptions): InitClientArgs {
+  const { endpoint, token, root, config, request } = options;
+  const transport = resolveTransport(
+    { ...options.transport, baseUrl: root ?? options.transport?.baseUrl },
+    () => getApiRoot(config),
+  );
+
+  return {
+    baseUrl: `${transport.baseUrl}/${endpoint}`,
+    api: withRequestOptions(
+      withInterceptors(
+        withRetries(
+          withTimeout(
+            transport.fetcher,
+            request?.timeoutMs ?? config.timeoutMs,
+          ),
+          config.retry,
+        ),
+        options.interceptors,
+      ),
+      request,
+    ),
+    baseHeaders: transport.proxy ? proxyHeaders(config) : {
+      ...config.headers,
+      "token": token,
+    },
+  };
+}
+
+/**
+ * Headers of the requests sent through a backend-for-frontend proxy:
+ * no token, which the proxy injects, but the CSRF token of the session cookie.
+ */
+function proxyHeaders(config: AfloatConfig): Record<string, string> {
+  const document = (globalThis as { document?: { cookie: string } }).document;
+  const csrfToken = readCsrfCookie(document?.cookie);
+  return csrfToken
+    ? { ...config.headers, [CSRF_HEADER]: csrfToken }
+    : { ...config.headers };
+}
+
+/**
+ * Wraps a fetcher so that every request carries the per-call signal and idempotency key.
+ */
+function withRequestOptions(
+  fetcher: ApiFetcher,
+  request?: RequestOptions,
+): ApiFetcher {
+  if (!request?.signal && !request?.idempotencyKey) return fetcher;
+
+  return (args) =>
+    fetcher({
+      ...args,
+      headers: request.idempotencyKey
+        ? { ...args.headers, [IDEMPOTENCY_KEY_HEADER]: request.idempotencyKey }
+        : args.headers,
+      fetchOptions: {
+        ...args.fetchOptions,
+        signal: request.signal ?? args.fetchOptions?.signal,
+      },
+    });
+}
+
+/**
+ * Wraps a fetcher so that requests taking longer than `timeoutMs`, when given, are aborted.
+ * A signal already passed by the caller keeps working alongside the timeout.
+ * Transport failures other than cancellations are reported as a `NetworkError`.
+ */
+function withTimeout(
+  fetcher: ApiFetcher,
+  timeoutMs: number | undefined,
+): ApiFetcher {
+  return async (args) => {
+    const controller = new AbortController();
+    const callerSignal = args.fetchOptions?.signal;
+    const abort = () => controller.abort(callerSignal?.reason);
+    if (callerSignal?.aborted) abort();
+    callerSignal?.addEventListener("abort", abort);
+
+    let timedOut = false;
+    const timer = timeoutMs === undefined ? undefined : setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    try {
+      return await fetcher({
+        ...args,
+        fetchOptions: { ...args.fetchOptions, signal: controller.signal },
+      });
+    } catch (error) {
+      const requestId = args.headers[REQUEST_ID_HEADER];
+      if (timedOut && timeoutMs !== undefined) {
+        throw new TimeoutError({ timeoutMs, requestId });
+      }
+      if (callerSignal?.aborted || error instanceof APIError) throw error;
+      throw new NetworkError({ cause: error, requestId });
+    } finally {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener("abort", abort);
+    }
+  };
+}
@@ -0,0 +1,149 @@
+import type { ApiFetcher } from "@ts-rest/core";
+
+/** Header carrying the idempotency key of mutating requests */
+export const IDEMPOTENCY_KEY_HEADER = "idempotency-key";
+
+/** HTTP methods that never change server state, and are always safe to retry */
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+/**
+ * Describes when and how failed requests are retried.
+ */
+export interface RetryPolicy {
+  /** Maximum number of retries after the first attempt. `0` disables retries */
+  retries: number;
+
+  /** Delay in milliseconds before the first retry; doubled on every following retry */
+  baseDelayMs: number;
+
+  /**
+   * Upper bound in milliseconds of the delay before a retry. A server asking to wait longer
+   * with `Retry-After` is not retried: its response is returned, e.g. as a `RateLimitError`.
+   */
+  maxDelayMs: number;
+
+  /** Whether to randomize delays ("full jitter") to spread out retries from many clients */
+  jitter: boolean;
+
+  /** Response status codes that are retried */
+  retryOnStatus: number[];
+}
+
+/** Retry policy used when nothing has been configured */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 300,
+  maxDelayMs: 5_000,
+  jitter: true,
+  retryOnStatus: [408, 429, 502, 503, 504],
+};
+
+/**
+ * Computes how long to wait before a retry.
+ * A `Retry-After` value sent by the server is honored, up to `maxDelayMs`; otherwise
+ * an exponential backoff capped at `maxDelayMs` is used.
+ *
+ * @param {RetryPolicy} policy - The retry policy
+ * @param {number} attempt - The retry number, starting at 1
+ * @param {string | null} [retryAfter] - The `Retry-After` header of the failed response
+ * @returns {number} The delay in milliseconds
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  retryAfter?: string | null,
+): number {
+  const serverDelay = parseRetryAfter(retryAfter);
+  if (serverDelay !== undefined) {
+    return Math.min(serverDelay, policy.maxDelayMs);
+  }
+
+  const backoff = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1),
+  );
+  return policy.jitter ? Math.round(Math.random() * backoff) : backoff;
+}
+
+/**
+ * Parses a `Retry-After` header, given either in seconds or as an HTTP date.
+ *
+ * @param {string | null} [value] - The header value
+ * @returns {number | undefined} The delay in milliseconds, or undefined if absent or invalid
+ */
+export function parseRetryAfter(value?: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+
+  return undefined;
+}
+
+/**
+ * Wraps a fetcher so that failed requests are retried according to the policy.
+ *
+ * Only requests that are safe to repeat are retried: GET, HEAD and OPTIONS requests, and
+ * mutating requests carrying an idempotency key, sent unchanged with every retry so the
+ * server can deduplicate them. Other mutating requests, e.g. logins, are sent once.
+ * Requests cancelled by the caller, and responses asking to wait longer than
+ * `maxDelayMs`, are never retried.
+ *
+ * @param {ApiFetcher} fetcher - The fetcher to wrap
+ * @param {RetryPolicy} policy - The retry policy
+ * @returns {ApiFetcher} The retrying fetcher
+ */
+export function withRetries(
+  fetcher: ApiFetcher,
+  policy: RetryPolicy,
+): ApiFetcher {
+  return async (args) => {
+    const retryable = SAFE_METHODS.has(args.method.toUpperCase()) ||
+      !!args.headers[IDEMPOTENCY_KEY_HEADER];
+    if (!retryable) return fetcher(args);
+
+    const signal = args.fetchOptions?.signal;
+    for (let attempt = 0;; attempt++) {
+      const canRetry = attempt < policy.retries;
+
+      try {
+        const response = await fetcher(args);
+        if (!canRetry || !policy.retryOnStatus.includes(response.status)) {
+          return response;
+        }
+
+        const retryAfter = response.headers.get("retry-after");
+        const serverDelay = parseRetryAfter(retryAfter);
+        if (serverDelay !== undefined && serverDelay > policy.maxDelayMs) {
+          return response;
+        }
+        await sleep(getRetryDelay(policy, attempt + 1, retryAfter), signal);
+      } catch (error) {
+        if (!canRetry || signal?.aborted) throw error;
+        await sleep(getRetryDelay(policy, attempt + 1), signal);
+      }
+    }
+  };
+}
+
+/**
+ * Waits for the given delay, stopping early if the signal is aborted.
+ */
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,96 @@
+import { assertEquals } from "@std/assert";
+import type { ApiFetcher } from "@ts-rest/core";
+import {
+  DEFAULT_RETRY_POLICY,
+  IDEMPOTENCY_KEY_HEADER,
+  type RetryPolicy,
+  withRetries,
+} from "@shared/retry.ts";
+
+/** Retries without waiting, so tests stay fast */
+const policy: RetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  baseDelayMs: 0,
+  jitter: false,
+};
+
+/**
+ * A fake fetcher answering every request with a 503, recording the requests it receives.
+ */
+function unavailableFetcher(): {
+  fetcher: ApiFetcher;
+  calls: Parameters<ApiFetcher>[0][];
+} {
+  const calls: Parameters<ApiFetcher>[0][] = [];
+  const fetcher: ApiFetcher = (args) => {
+    calls.push(args);
+    return Promise.resolve({ status: 503, body: {}, headers: new Headers() });
+  };
+  return { fetcher, calls };
+}
+
+/**
+ * Builds the arguments of a request sent by a "ts-rest" client.
+ */
+function request(
+  method: string,
+  headers: Record<string, string> = {},
+): Parameters<ApiFetcher>[0] {
+  return {
+    method,
+    path: "https://api.afloat.money/v1/payout",
+    headers,
+    body: undefined,
+    rawBody: undefined,
+    rawQuery: undefined,
+    contentType: undefined,
+  } as unknown as Parameters<ApiFetcher>[0];
+}
+
+Deno.test("withRetries never retries a POST without an idempotency key", async () => {
+  const { fetcher, calls } = unavailableFetcher();
+
+  const response = await withRetries(fetcher, policy)(request("POST"));
+
+  assertEquals(response.status, 503);
+  assertEquals(calls.length, 1);
+});
+
+Deno.test("withRetries retries a POST carrying an idempotency key, with the same key", async () => {
+  const { fetcher, calls } = unavailableFetcher();
+
+  await withRetries(fetcher, policy)(
+    request("POST", { [IDEMPOTENCY_KEY_HEADER]: "payout-key" }),
+  );
+
+  assertEquals(calls.length, policy.retries + 1);
+  assertEquals(
+    calls.map((call) => call.headers[IDEMPOTENCY_KEY_HEADER]),
+    Array(policy.retries + 1).fill("payout-key"),
+  );
+});
+
+Deno.test("withRetries retries reads", async () => {
+  const { fetcher, calls } = unavailableFetcher();
+
+  await withRetries(fetcher, policy)(request("GET"));
+
+  assertEquals(calls.length, policy.retries + 1);
+});
+
+Deno.test("withRetries does not wait longer than maxDelayMs for Retry-After", async () => {
+  const calls: Parameters<ApiFetcher>[0][] = [];
+  const fetcher: ApiFetcher = (args) => {
+    calls.push(args);
+    return Promise.resolve({
+      status: 429,
+      body: {},
+      headers: new Headers({ "retry-after": "600" }),
+    });
+  };
+
+  const response = await withRetries(fetcher, policy)(request("GET"));
+
+  assertEquals(response.status, 429);
+  assertEquals(calls.length, 1);
+});
@@ -1,8 +1,24 @@
 import { type AppRouter, initClient } from "@ts-rest/core";
-import { APIError } from "@errors/api_error.ts";
-import { v4 as uuidv4 } from "uuid";
-import type { InitClientArgs } from "@ts-rest/core";
-import type { Common400APIResponse } from "@shared/index.ts";
+import { errorFromResponse } from "@errors/http_errors.ts";
+import type { Transport } from "@shared/transport.ts";
+import {
+  type AfloatConfigInput,
+  resolveAfloatConfig,
+} from "@shared/config.ts";
+import { createClientArgs } from "@shared/request_pipeline.ts";
+import type { Interceptor } from "@shared/interceptors.ts";
+
+/**
+ * Optional arguments of `TokenRequiredRepository`.
+ */
+export interface TokenRequiredRepositoryArgs {
+  /** Optional transport overriding the globally configured one */
+  transport?: Transport;
+  /** Optional configuration overriding the global one */
+  config?: AfloatConfigInput;
+  /** Optional interceptors run around requests, after the global ones */
+  interceptors?: Interceptor[];
+}
 
 /**
  * TokenRequiredRepository
@@ -42,6 +58,27 @@ export class TokenRequiredRepository<TContract extends AppRouter> {
    */
   protected token: string;
 
+  /**
+   * The transport overriding the globally configured one
+   *
+   * @protected
+   */
+  protected transport: Transport | undefined;
+
+  /**
+   * Configuration overriding the global one
+   *
+   * @protected
+   */
+  protected configOverrides: AfloatConfigInput | undefined;
+
+  /**
+   * Interceptors run around this repository's requests, after the global ones
+   *
+   * @protected
+   */
+  protected interceptors: Interceptor[];
+
   /**
    * Constructs a new instance of `TokenRequiredRepository`.
    *
@@ -49,17 +86,22 @@ export class TokenRequiredRepository<TContract extends AppRouter> {
    * @param contract - The "ts-rest" contract
    * @param token - Authentication token (required)
    * @param root - Optional API root URL
+   * @param args - Optional transport, configuration and interceptors
    */
   constructor(
     endpoint: string,
     contract: TContract,
     token: string,
     root?: string,
+    args?: TokenRequiredRepositoryArgs,
   ) {
     this.contract = contract;
     this.endpoint = endpoint;
     this.token = token;
     this.root = root;
+    this.transport = args?.transport;
+    this.configOverrides = args?.config;
+    this.interceptors = args?.interceptors ?? [];
   }
 
   /**
@@ -67,21 +109,29 @@ export class TokenRequiredRepository<TContract extends AppRouter> {
    * Uses the provided authentication token.
    */
   get client() {
-    const baseUrl = this.root
-      ? `${this.root}/${this.endpoint}`
-      : `https://api.afloat.money/v1/${this.endpoint}`;
-
-    const args: InitClientArgs = {
-      baseUrl,
-      baseHeaders: {
-        "token": this.token,
-        "x-request-id": uuidv4(),
-      },
-    };
+    const args = createClientArgs({
+      endpoint: this.endpoint,
+      token: this.token,
+      root: this.root,
+      transport: this.transport,
+      interceptors: this.interceptors,
+      config: resolveAfloatConfig(this.configOverrides),
+    });
 
     return initClient(this.contract, args);
   }
 
+  /**
+   * Adds an interceptor run around this repository's requests.
+   *
+   * @param interceptor - The interceptor to add
+   * @returns This repository, for chaining
+   */
+  use(interceptor: Interceptor): this {
+    this.interceptors.push(interceptor);
+    return this;
+  }
+
   /**
    * Updates the token used by this repository
    *
@@ -102,31 +152,24 @@ export class TokenRequiredRepository<TContract extends AppRouter> {
 
   /**
    * Handles the API response by checking the HTTP status code and returning the response body
-   * for successful requests or throwing an `APIError` for errors.
+   * for successful requests or throwing the `APIError` subclass matching the status code
+   * for errors.
    *
    * @template T - The expected type of the successful response body.
    * @param result - The API response object containing the status code and response body.
    * @param successStatusCode - The expected HTTP status code indicating success (e.g., 200, 201).
    * @returns The response body typed as `T` if the status code matches the success criteria.
-   * @throws `APIError` - If the status code indicates a failure.
+   * @throws `APIError` - If the status code indicates a failure, e.g. a `NotFoundError` for 404,
+   * carrying the request's `x-request-id`.
    */
   handleResponse<T>(
-    result: { status: number; body: unknown },
+    result: { status: number; body: unknown; headers?: Headers },
     successStatusCode: number,
   ): T {
     if (successStatusCode === result.status) {
       return result.body as T;
     }
 
-    if (result.status === 400) {
-      throw new APIError(result.body as Common400APIResponse);
-    }
-
-    throw new APIError({
-      message:
-        "We encountered an error trying to process your request. Please try again later",
-      statusCode: 520,
-      error: "UNKNOWN ERROR",
-    });
+    throw errorFromResponse(result);
   }
 }
@@ -0,0 +1,158 @@
+import { type ApiFetcher, tsRestFetchApi } from "@ts-rest/core";
+
+/** Default root URL of the Afloat API */
+export const DEFAULT_API_ROOT = "https://api.afloat.money/v1";
+
+/**
+ * A `fetch`-compatible function.
+ * Lets hosts plug in the native fetch of their runtime (Node, Deno, Bun, edge workers)
+ * or a wrapped/instrumented one.
+ */
+export type FetchFunction = (
+  input: string,
+  init?: RequestInit,
+) => Promise<Response>;
+
+/**
+ * Describes how repositories reach the Afloat API.
+ *
+ * All fields are optional; anything left out falls back to the globally
+ * configured transport, and finally to the built-in defaults.
+ */
+export interface Transport {
+  /**
+   * Root URL of the API (e.g. a BFF proxy).
+   * Defaults to {@link DEFAULT_API_ROOT}.
+   */
+  baseUrl?: string;
+
+  /**
+   * A plain `fetch` implementation used to send requests.
+   * Ignored when `fetcher` is provided.
+   */
+  fetch?: FetchFunction;
+
+  /**
+   * A full "ts-rest" fetcher, for complete control over how requests are sent
+   * and responses are decoded (e.g. an in-memory fake transport in unit tests).
+   */
+  fetcher?: ApiFetcher;
+
+  /**
+   * Whether `baseUrl` is a backend-for-frontend proxy created with `createAfloatProxy`.
+   * Repositories then never send the token, which the proxy injects from the session
+   * cookie, and echo the CSRF cookie in the `x-csrf-token` header instead.
+   */
+  proxy?: boolean;
+}
+
+/**
+ * A transport with every field resolved.
+ */
+export interface ResolvedTransport {
+  baseUrl: string;
+  fetcher: ApiFetcher;
+  proxy: boolean;
+}
+
+/**
+ * Global transport shared by every repository that does not override it.
+ */
+export const TransportContext = {
+  current: {} as Transport,
+};
+
+/**
+ * Sets the global transport used by all repositories.
+ * Fields not provided keep their previously configured values.
+ *
+ * @param {Transport} transport - Transport fields to set
+ *
+ * @example
+ * configureTransport({ baseUrl: "https://bff.example.com/afloat", fetch: customFetch });
+ */
+export function configureTransport(transport: Transport): void {
+  TransportContext.current = { ...TransportContext.current, ...transport };
+}
+
+/**
+ * Restores the global transport to the built-in defaults.
+ */
+export function resetTransport(): void {
+  TransportContext.current = {};
+}
+
+/**
+ * Creates a "ts-rest" fetcher that sends requests through the given `fetch` implementation.
+ * Response bodies are decoded the same way as the default "ts-rest" fetcher.
+ *
+ * @param {FetchFunction} fetchFn - The fetch implementation to use
+ * @returns {ApiFetcher} A fetcher usable by "ts-rest" clients
+ */
+export function createFetcher(fetchFn: FetchFunction): ApiFetcher {
+  return async ({ path, method, headers, body, fetchOptions }) => {
+    const response = await fetchFn(path, {
+      ...fetchOptions,
+      method,
+      headers,
+      body,
+    });
+
+    const contentType = response.headers.get("content-type") ?? "";
+    if (contentType.includes("application/") && contentType.includes("json")) {
+      return {
+        status: response.status,
+        body: await response.json(),
+        headers: response.headers,
+      };
+    }
+
+    if (contentType.includes("text/")) {
+      return {
+        status: response.status,
+        body: await response.text(),
+        headers: response.headers,
+      };
+    }
+
+    return {
+      status: response.status,
+      body: await response.blob(),
+      headers: response.headers,
+    };
+  };
+}
+
+/**
+ * Resolves the transport to use, in order of precedence:
+ * the given override, the global transport, then the defaults.
+ *
+ * @param {Transport} [override] - Transport fields that take precedence
+ * @param {string | (() => string)} [defaultBaseUrl] - Root URL used when no transport sets one,
+ * or a function resolving it, only called in that case
+ * @returns {ResolvedTransport} The transport to use
+ */
+export function resolveTransport(
+  override?: Transport,
+  defaultBaseUrl: string | (() => string) = DEFAULT_API_ROOT,
+): ResolvedTransport {
+  const global = TransportContext.current;
+
+  return {
+    baseUrl: override?.baseUrl ?? global.baseUrl ??
+      (typeof defaultBaseUrl === "function"
+        ? defaultBaseUrl()
+        : defaultBaseUrl),
+    fetcher: pickFetcher(override) ?? pickFetcher(global) ?? tsRestFetchApi,
+    proxy: override?.proxy ?? global.proxy ?? false,
+  };
+}
+
+/**
+ * Picks the fetcher described by a transport, if any.
+ */
+function pickFetcher(transport?: Transport): ApiFetcher | undefined {
+  if (transport?.fetcher) return transport.fetcher;
+  if (transport?.fetch) return createFetcher(transport.fetch);
+  return undefined;
+}